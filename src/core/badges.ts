@@ -0,0 +1,62 @@
+import { RadialItem, RadialItemBadge } from '../types';
+
+export type BadgeValue = RadialItemBadge | number | null;
+
+/**
+ * Badge to draw for a value, or null when there is nothing to show (no value, a zero count)
+ */
+export function normalizeBadge(value: BadgeValue | undefined): RadialItemBadge | null {
+    if (value === null || value === undefined) return null;
+    const badge = typeof value === 'number' ? { count: value } : value;
+    if (!badge.dot && !badge.severity && !badge.count) return null;
+    return badge;
+}
+
+/**
+ * Live badges by item id, overriding `RadialItem.badge`. Setting one only notifies the
+ * renderers, so counters can tick without `updateItems` rebuilding paths and resetting animations.
+ */
+export class BadgeStore {
+    private badges: Map<string, BadgeValue> = new Map();
+    private listeners: Set<() => void> = new Set();
+
+    public subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+
+    public get(item: RadialItem): RadialItemBadge | null {
+        return normalizeBadge(this.badges.has(item.id) ? this.badges.get(item.id) : item.badge);
+    }
+
+    /**
+     * Sets (or with null, hides) the badge of an item
+     */
+    public set(id: string, badge: BadgeValue) {
+        this.setMany({ [id]: badge });
+    }
+
+    /**
+     * Sets several badges with a single redraw
+     */
+    public setMany(badges: Record<string, BadgeValue>) {
+        Object.entries(badges).forEach(([id, badge]) => this.badges.set(id, badge));
+        this.notify();
+    }
+
+    /**
+     * Drops live badges (all, or one item's), falling back to `RadialItem.badge`
+     */
+    public clear(id?: string) {
+        if (id === undefined) {
+            this.badges.clear();
+        } else {
+            this.badges.delete(id);
+        }
+        this.notify();
+    }
+}
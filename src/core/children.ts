@@ -0,0 +1,115 @@
+import { RadialItem } from '../types';
+import { getVisibleItems, isItemDisabled } from './items';
+
+export type ChildrenStatus = 'idle' | 'loading' | 'loaded' | 'error';
+
+interface ChildrenEntry {
+    status: ChildrenStatus;
+    children: RadialItem[];
+    error?: unknown;
+    generation: number; // Bumped on invalidate so late results from an old request are dropped
+}
+
+/**
+ * Loads and caches children of items that provide `loadChildren()`.
+ * Entries are keyed by item id, so the cache survives apps re-creating their item objects.
+ */
+export class ChildrenLoader {
+    private entries: Map<string, ChildrenEntry> = new Map();
+    private listeners: Set<() => void> = new Set();
+    private generation: number = 0;
+
+    public subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+
+    /**
+     * Children to display for an item: static children win, otherwise whatever has loaded so far.
+     * Hidden children are left out and disabled branches do not expand.
+     */
+    public getChildren(item: RadialItem): RadialItem[] {
+        if (isItemDisabled(item)) return [];
+        if (item.children && item.children.length > 0) return getVisibleItems(item.children);
+        if (!item.loadChildren) return [];
+        return getVisibleItems(this.entries.get(item.id)?.children || []);
+    }
+
+    /**
+     * Whether the item is a branch. Lazy items count as branches before they have loaded.
+     */
+    public hasChildren(item: RadialItem): boolean {
+        return (!!item.children && getVisibleItems(item.children).length > 0) || !!item.loadChildren;
+    }
+
+    public getStatus(item: RadialItem): ChildrenStatus {
+        if (!item.loadChildren || (item.children && item.children.length > 0)) return 'loaded';
+        return this.entries.get(item.id)?.status || 'idle';
+    }
+
+    public getError(item: RadialItem): unknown {
+        return this.entries.get(item.id)?.error;
+    }
+
+    public isLoading(): boolean {
+        for (const entry of this.entries.values()) {
+            if (entry.status === 'loading') return true;
+        }
+        return false;
+    }
+
+    /**
+     * Starts loading unless the children are already cached or on their way.
+     * A failed load is retried on the next call.
+     */
+    public load(item: RadialItem): void {
+        if (!item.loadChildren || isItemDisabled(item)) return;
+
+        const existing = this.entries.get(item.id);
+        if (existing && (existing.status === 'loading' || existing.status === 'loaded')) return;
+
+        const generation = ++this.generation;
+        this.entries.set(item.id, { status: 'loading', children: [], generation });
+        this.notify();
+
+        let request: Promise<RadialItem[]>;
+        try {
+            request = Promise.resolve(item.loadChildren());
+        } catch (error) {
+            request = Promise.reject(error);
+        }
+
+        request.then(
+            (children) => this.settle(item.id, generation, { status: 'loaded', children: children || [], generation }),
+            (error) => this.settle(item.id, generation, { status: 'error', children: [], error, generation })
+        );
+    }
+
+    private settle(id: string, generation: number, entry: ChildrenEntry) {
+        // Invalidated (or reloaded) while the request was in flight
+        if (this.entries.get(id)?.generation !== generation) return;
+
+        if (entry.status === 'error') {
+            console.warn(`[Bagel] Failed to load children for "${id}":`, entry.error);
+        }
+        this.entries.set(id, entry);
+        this.notify();
+    }
+
+    /**
+     * Drops cached children so they are loaded again on the next highlight.
+     * Pass an item id to invalidate a single branch, or nothing to clear everything.
+     */
+    public invalidate(id?: string): void {
+        if (id === undefined) {
+            this.entries.clear();
+        } else {
+            this.entries.delete(id);
+        }
+        this.notify();
+    }
+}
@@ -0,0 +1,196 @@
+import { BagelConfig, FeedbackConfig, FeedbackEvent, FeedbackProfile, FeedbackTone } from '../types';
+import { BagelEvent, BagelStateManager, InputSource, MenuStatus } from './state';
+import { getGamepad } from './gamepad';
+
+export const DEFAULT_FEEDBACK_PROFILES: Record<FeedbackEvent, FeedbackProfile> = {
+    'glide': { vibrate: 20, tone: { frequency: 440, duration: 30 } },
+    'highlight': { vibrate: 10, tone: { frequency: 880, duration: 25 } },
+    'drill-in': { vibrate: 15, tone: { frequency: 660, endFrequency: 990, duration: 50 } },
+    'back': { vibrate: 10, tone: { frequency: 990, endFrequency: 660, duration: 50 } },
+    'select': { vibrate: 25, tone: { frequency: 1320, duration: 70, type: 'triangle' } },
+    'cancel': { vibrate: 20, tone: { frequency: 330, endFrequency: 220, duration: 80 } },
+    'disabled-hit': { vibrate: [15, 40, 15], tone: { frequency: 160, duration: 90, type: 'square', volume: 0.5 } },
+};
+
+// Pulses that still play with reduced haptics: they confirm an outcome rather than track the pointer
+const CONFIRMING_EVENTS: ReadonlySet<FeedbackEvent> = new Set<FeedbackEvent>(['select', 'cancel', 'disabled-hit']);
+
+const DEFAULT_VOLUME = 0.2;
+const DEFAULT_TONE_DURATION = 40; // ms
+const ATTACK = 0.005; // s, avoids a click at the start of the tone
+
+/**
+ * Profile for an event: the default with the configured override merged over it, null when turned off
+ */
+export function getFeedbackProfile(event: FeedbackEvent, config: FeedbackConfig = {}): FeedbackProfile | null {
+    const override = config.profiles?.[event];
+    if (override === false) return null;
+    return { ...DEFAULT_FEEDBACK_PROFILES[event], ...override };
+}
+
+/**
+ * Maps a lifecycle event to the feedback it plays, given the path highlighted before it.
+ * A highlight that extends the previous path opens a ring, so it counts as a drill-in.
+ */
+export function getFeedbackEvent(event: BagelEvent, previousPath: number[]): FeedbackEvent | null {
+    switch (event.type) {
+        case 'highlight': {
+            const isDeeper = previousPath.length > 0 && event.indices.length > previousPath.length &&
+                previousPath.every((v, i) => v === event.indices[i]);
+            return isDeeper ? 'drill-in' : 'highlight';
+        }
+        case 'back': return 'back';
+        case 'select': return 'select';
+        case 'cancel': return 'cancel';
+        case 'reject': return 'disabled-hit';
+        default: return null;
+    }
+}
+
+/**
+ * DOM adapter: plays haptic and audio feedback for lifecycle events, whichever input caused them.
+ * Vibration goes to navigator.vibrate, or the pad's rumble for gamepad input; tones are synthesized
+ * with Web Audio. API-driven (programmatic) changes stay silent.
+ */
+export class FeedbackController {
+    private stateManager: BagelStateManager;
+    private config: BagelConfig;
+    private unsubscribers: (() => void)[];
+
+    private previousPath: number[] = [];
+    private previousStatus: MenuStatus;
+    private audioContext: AudioContext | null = null;
+    private reducedMotion: MediaQueryList | null;
+
+    constructor(stateManager: BagelStateManager, config: BagelConfig) {
+        this.stateManager = stateManager;
+        this.config = config;
+        this.reducedMotion = typeof window !== 'undefined' && window.matchMedia
+            ? window.matchMedia('(prefers-reduced-motion: reduce)')
+            : null;
+
+        this.previousStatus = stateManager.getState().status;
+
+        this.unsubscribers = (['open', 'close', 'highlight', 'back', 'select', 'cancel', 'reject'] as const)
+            .map(type => this.stateManager.on(type, this.onEvent));
+        this.unsubscribers.push(this.stateManager.subscribe(this.onStateChange));
+    }
+
+    public updateConfig(newConfig: BagelConfig) {
+        this.config = newConfig;
+    }
+
+    public destroy() {
+        this.unsubscribers.forEach(off => off());
+        if (this.audioContext) {
+            this.audioContext.close().catch(() => {
+                // Already closed
+            });
+            this.audioContext = null;
+        }
+    }
+
+    /**
+     * Plays the profile of an event directly, e.g. to preview settings
+     */
+    public play(event: FeedbackEvent, source: InputSource = 'pointer') {
+        const options = this.getOptions();
+        if (options.muted) return;
+
+        const profile = getFeedbackProfile(event, options);
+        if (!profile) return;
+
+        if (profile.vibrate !== undefined && options.haptics !== false && this.allowsHaptics(event)) {
+            this.vibrate(profile.vibrate, source);
+        }
+        if (profile.tone && options.sound) {
+            this.playTone(profile.tone, options.volume ?? DEFAULT_VOLUME);
+        }
+    }
+
+    private getOptions(): FeedbackConfig {
+        return this.config.feedback ?? {};
+    }
+
+    private onEvent = (event: BagelEvent) => {
+        const previousPath = this.previousPath;
+        if (event.type === 'highlight' || event.type === 'back') this.previousPath = event.indices;
+        else if (event.type === 'open' || event.type === 'close') this.previousPath = [];
+
+        if (event.source === 'programmatic') return;
+        const feedback = getFeedbackEvent(event, previousPath);
+        if (feedback) this.play(feedback, event.source);
+    };
+
+    /**
+     * Entering a glide is a status change rather than a lifecycle event; only pointer presses glide
+     */
+    private onStateChange = () => {
+        const { status } = this.stateManager.getState();
+        const entersGlide = status === MenuStatus.GLIDING && this.previousStatus !== MenuStatus.GLIDING;
+        this.previousStatus = status;
+        if (entersGlide) this.play('glide', 'pointer');
+    };
+
+    private allowsHaptics(event: FeedbackEvent): boolean {
+        const reduce = this.getOptions().reduceHaptics ?? !!this.reducedMotion?.matches;
+        return !reduce || CONFIRMING_EVENTS.has(event);
+    }
+
+    private vibrate(pattern: number | number[], source: InputSource) {
+        if (source === 'gamepad') {
+            // Rumble has no patterns: one effect as long as the pulses together
+            const pulses = Array.isArray(pattern) ? pattern.filter((_, i) => i % 2 === 0) : [pattern];
+            const duration = pulses.reduce((sum, pulse) => sum + pulse, 0);
+            const actuator = getGamepad(this.config)?.vibrationActuator;
+            if (!actuator || duration <= 0) return;
+            actuator.playEffect('dual-rumble', { duration, strongMagnitude: 0.2, weakMagnitude: 0.6 }).catch(() => {
+                // Rumble is best effort, unsupported effects simply do nothing
+            });
+            return;
+        }
+        if (typeof navigator !== 'undefined' && navigator.vibrate) navigator.vibrate(pattern);
+    }
+
+    private getAudioContext(): AudioContext | null {
+        if (!this.audioContext) {
+            if (typeof AudioContext === 'undefined') return null;
+            this.audioContext = new AudioContext();
+        }
+        // Contexts start suspended until a user gesture, feedback always follows one
+        if (this.audioContext.state === 'suspended') {
+            this.audioContext.resume().catch(() => {
+                // Autoplay policy: stays silent until the next gesture
+            });
+        }
+        return this.audioContext;
+    }
+
+    private playTone(tone: FeedbackTone, volume: number) {
+        const context = this.getAudioContext();
+        if (!context) return;
+
+        const start = context.currentTime;
+        const end = start + Math.max(ATTACK * 2, (tone.duration ?? DEFAULT_TONE_DURATION) / 1000);
+        const peak = Math.min(1, Math.max(0, volume * (tone.volume ?? 1)));
+        if (peak <= 0) return;
+
+        const oscillator = context.createOscillator();
+        oscillator.type = tone.type ?? 'sine';
+        oscillator.frequency.setValueAtTime(tone.frequency, start);
+        if (tone.endFrequency !== undefined) {
+            oscillator.frequency.exponentialRampToValueAtTime(Math.max(1, tone.endFrequency), end);
+        }
+
+        // Short attack, exponential decay to silence
+        const gain = context.createGain();
+        gain.gain.setValueAtTime(0.0001, start);
+        gain.gain.exponentialRampToValueAtTime(peak, start + ATTACK);
+        gain.gain.exponentialRampToValueAtTime(0.0001, end);
+
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.onended = () => gain.disconnect();
+        oscillator.start(start);
+        oscillator.stop(end);
+    }
+}
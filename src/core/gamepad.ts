@@ -0,0 +1,162 @@
+import { BagelConfig, GamepadAction, GamepadConfig, RadialItem } from '../types';
+import { BagelStateManager, MenuStatus } from './state';
+import { NavigationEngine, NavigationIntent } from './navigation';
+
+// Standard mapping: https://w3c.github.io/gamepad/#remapping
+const DEFAULT_BUTTONS: Record<GamepadAction, number> = {
+    confirm: 0, // A / Cross
+    cancel: 1, // B / Circle
+    out: 4, // Left shoulder
+    in: 5, // Right shoulder
+    toggle: 9, // Start / Options
+};
+
+const BUTTON_INTENTS: Partial<Record<GamepadAction, NavigationIntent>> = {
+    confirm: 'confirm',
+    cancel: 'cancel',
+    out: 'out',
+    in: 'in',
+};
+
+const DEFAULT_DEAD_ZONE = 0.25;
+
+/**
+ * The pad config.gamepad.index points at, or the first connected one
+ */
+export function getGamepad(config: BagelConfig): Gamepad | null {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+    const pads = navigator.getGamepads();
+    const index = config.gamepad?.index;
+    if (index !== undefined) return pads[index] ?? null;
+    return pads.find((pad): pad is Gamepad => !!pad && pad.connected) ?? null;
+}
+
+/**
+ * Gamepad adapter: polls the Gamepad API once per animation frame while a pad is connected.
+ * The stick aims (angle picks the slice, magnitude past the dead zone reaches across the open rings),
+ * shoulder buttons drill in and out, face buttons confirm and cancel, Start opens and closes.
+ * Runs alongside InputController on the same state manager.
+ */
+export class GamepadInputController {
+    private stateManager: BagelStateManager;
+    private config: BagelConfig;
+    private engine: NavigationEngine;
+
+    private rafId: number | null = null;
+    private pressed: Set<number> = new Set(); // Buttons held in the last poll, actions fire on the press edge
+
+    // Rings the stick reaches across, fixed while it is pushed so opening a branch does not rescale it
+    private aimRings: number | null = null;
+
+    constructor(stateManager: BagelStateManager, config: BagelConfig, items: RadialItem[]) {
+        this.stateManager = stateManager;
+        this.config = config;
+        this.engine = new NavigationEngine(stateManager, config, items);
+
+        window.addEventListener('gamepadconnected', this.onConnectionChange);
+        window.addEventListener('gamepaddisconnected', this.onConnectionChange);
+        this.onConnectionChange();
+    }
+
+    public updateConfig(newConfig: BagelConfig) {
+        this.config = newConfig;
+        this.engine.updateConfig(newConfig);
+        this.onConnectionChange();
+    }
+
+    public updateItems(newItems: RadialItem[]) {
+        this.engine.updateItems(newItems);
+    }
+
+    public destroy() {
+        window.removeEventListener('gamepadconnected', this.onConnectionChange);
+        window.removeEventListener('gamepaddisconnected', this.onConnectionChange);
+        this.stopPolling();
+        this.engine.destroy();
+    }
+
+    private getOptions(): GamepadConfig {
+        return this.config.gamepad ?? {};
+    }
+
+    /**
+     * Polls only while enabled and a pad is there, an idle menu costs no frames
+     */
+    private onConnectionChange = () => {
+        if (this.getOptions().enabled && getGamepad(this.config)) {
+            if (this.rafId === null) this.rafId = requestAnimationFrame(this.poll);
+        } else {
+            this.stopPolling();
+        }
+    };
+
+    private stopPolling() {
+        if (this.rafId !== null) {
+            cancelAnimationFrame(this.rafId);
+            this.rafId = null;
+        }
+        this.pressed.clear();
+        this.aimRings = null;
+    }
+
+    private poll = () => {
+        this.rafId = requestAnimationFrame(this.poll);
+
+        // Chrome hands out snapshots, the pad has to be fetched again every frame
+        const pad = getGamepad(this.config);
+        if (!pad) return;
+
+        this.readButtons(pad);
+        this.readStick(pad);
+    };
+
+    private readButtons(pad: Gamepad) {
+        const buttons = { ...DEFAULT_BUTTONS, ...this.getOptions().buttons };
+        const isOpen = this.stateManager.getState().status !== MenuStatus.CLOSED;
+
+        const actions = Object.keys(buttons) as GamepadAction[];
+
+        // Edges per button first, several actions may share one
+        const justPressed = new Set<number>();
+        new Set(actions.map(action => buttons[action])).forEach(index => {
+            const isDown = !!pad.buttons[index]?.pressed;
+            if (isDown && !this.pressed.has(index)) justPressed.add(index);
+            if (isDown) this.pressed.add(index);
+            else this.pressed.delete(index);
+        });
+
+        actions.forEach(action => {
+            if (!justPressed.has(buttons[action])) return;
+
+            if (action === 'toggle') {
+                if (isOpen) this.engine.close('gamepad');
+                else this.engine.open('gamepad');
+                return;
+            }
+            const intent = BUTTON_INTENTS[action];
+            if (intent && isOpen) this.engine.handleIntent(intent, 'gamepad');
+        });
+    }
+
+    private readStick(pad: Gamepad) {
+        const offset = this.getOptions().stick === 'right' ? 2 : 0;
+        const x = pad.axes[offset] ?? 0;
+        const y = pad.axes[offset + 1] ?? 0;
+        const magnitude = Math.min(1, Math.sqrt(x * x + y * y));
+
+        // At rest the highlight stays, so a face button can confirm after letting go of the stick
+        const deadZone = Math.min(0.95, Math.max(0, this.getOptions().deadZone ?? DEFAULT_DEAD_ZONE));
+        if (magnitude <= deadZone) {
+            this.aimRings = null;
+            return;
+        }
+
+        // A push reaches across the rings open when it started: a full push aims at the ring
+        // opened last (e.g. by the shoulder button), a partial one at its parents
+        if (this.aimRings === null) this.aimRings = this.engine.getOpenRings();
+
+        // Axes grow rightwards and downwards, like screen coordinates
+        const reach = (magnitude - deadZone) / (1 - deadZone);
+        this.engine.aim(Math.atan2(y, x), reach, this.aimRings, 'gamepad');
+    }
+}
@@ -1,4 +1,4 @@
-import { BagelConfig, Point, PolarPoint } from '../types';
+import { BagelConfig, Point, PolarPoint, RadialItem } from '../types';
 
 export const TWO_PI = Math.PI * 2;
 
@@ -18,6 +18,13 @@ export function cartesianToPolar(x: number, y: number): PolarPoint {
     return { r, theta };
 }
 
+/**
+ * Converts Polar coordinates back to Cartesian, relative to the center of the menu.
+ */
+export function polarToCartesian({ r, theta }: PolarPoint): Point {
+    return { x: r * Math.cos(theta), y: r * Math.sin(theta) };
+}
+
 /**
  * Calculates the depth (ring index) based on radius and config.
  * Returns -1 if inside dead zone or outside max range (if applicable).
@@ -61,29 +68,132 @@ export function getDepth(r: number, config: BagelConfig): number {
 }
 
 /**
- * Calculates the item index based on angle and item count.
- * Assumes items are distributed evenly around the circle.
- * Handles startAngle (rotation of the menu).
+ * Angular extent of a single slice, measured in radians from the ring's startAngle.
  */
-export function getIndexFromAngle(theta: number, itemCount: number, startAngle: number = -Math.PI / 2, gapAngle: number = 0): number {
-  if (itemCount === 0) return -1;
-  
-  const sliceAngle = TWO_PI / itemCount;
+export interface SliceSpan {
+    start: number;
+    end: number;
+}
+
+/**
+ * Angle covered by the rings, clamped to (0, 2PI]. Defaults to a full circle.
+ */
+export function getArcSpan(config: BagelConfig): number {
+    const { arcSpan = TWO_PI } = config;
+    if (!(arcSpan > 0)) return TWO_PI;
+    return Math.min(arcSpan, TWO_PI);
+}
+
+/**
+ * Angle at which the first slice begins, after applying arcAlign to startAngle.
+ */
+export function getArcStart(config: BagelConfig): number {
+    const { startAngle = -Math.PI / 2, arcAlign = 'start' } = config;
+    const arcSpan = getArcSpan(config);
+
+    if (arcAlign === 'center') return startAngle - arcSpan / 2;
+    if (arcAlign === 'end') return startAngle - arcSpan;
+    return startAngle;
+}
+
+/**
+ * Checks whether an angle falls inside the menu's arc.
+ * Always true for full-circle menus.
+ */
+export function isAngleInArc(theta: number, config: BagelConfig): boolean {
+    const arcSpan = getArcSpan(config);
+    if (arcSpan >= TWO_PI) return true;
+
+    const adjustedTheta = ((theta - getArcStart(config)) % TWO_PI + TWO_PI) % TWO_PI;
+    return adjustedTheta <= arcSpan;
+}
+
+/**
+ * Splits the arc (full circle by default) into slices proportional to each item's weight.
+ * Passing a plain count distributes the slices evenly.
+ * Missing or invalid weights fall back to 1.
+ */
+export function getSliceSpans(items: RadialItem[] | number, arcSpan: number = TWO_PI): SliceSpan[] {
+    const weights = typeof items === 'number'
+        ? new Array<number>(Math.max(0, items)).fill(1)
+        : items.map(item => (item.weight !== undefined && item.weight > 0 && isFinite(item.weight) ? item.weight : 1));
+
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const spans: SliceSpan[] = [];
+    let cursor = 0;
+
+    for (const weight of weights) {
+        const sliceAngle = (weight / totalWeight) * arcSpan;
+        spans.push({ start: cursor, end: cursor + sliceAngle });
+        cursor += sliceAngle;
+    }
+
+    return spans;
+}
+
+/**
+ * Returns the inner and outer radius of the ring at the given depth.
+ * Matches the renderer, including the pixel gap between rings.
+ */
+export function getRingBounds(depth: number, config: BagelConfig): { rInner: number; rOuter: number } {
+    const gapPixels = config.gap || 0;
+    let rInner = config.innerRadius;
+    for (let d = 0; d < depth; d++) {
+        rInner += config.ringWidth + gapPixels;
+    }
+    return { rInner, rOuter: rInner + config.ringWidth };
+}
+
+/**
+ * Whether a point lies within a slice of the ring at the given depth, widened by margins in px:
+ * along the arc (at the point's radius) and across the ring's inner and outer edges.
+ */
+export function isWithinSlice(
+    { r, theta }: PolarPoint,
+    depth: number,
+    span: SliceSpan,
+    config: BagelConfig,
+    angularMargin: number = 0,
+    radialMargin: number = 0
+): boolean {
+    const { rInner, rOuter } = getRingBounds(depth, config);
+    if (r < rInner - radialMargin || r > rOuter + radialMargin) return false;
+
+    const margin = angularMargin / Math.max(1, r);
+    const adjustedTheta = ((theta - getArcStart(config)) % TWO_PI + TWO_PI) % TWO_PI;
+    // A widened slice at either end of a full circle reaches across the seam
+    return [adjustedTheta - TWO_PI, adjustedTheta, adjustedTheta + TWO_PI]
+        .some(angle => angle >= span.start - margin && angle <= span.end + margin);
+}
+
+/**
+ * Calculates the item index based on angle.
+ * Accepts either an item count (even distribution) or precomputed slice spans (weighted / partial arc).
+ * Handles startAngle (rotation of the menu). Angles past the end of a partial arc return -1.
+ */
+export function getIndexFromAngle(theta: number, slices: number | SliceSpan[], startAngle: number = -Math.PI / 2, gapAngle: number = 0): number {
+  const spans = typeof slices === 'number' ? getSliceSpans(slices) : slices;
+  if (spans.length === 0) return -1;
   
   // Normalize theta relative to startAngle
   let adjustedTheta = ((theta - startAngle) % TWO_PI + TWO_PI) % TWO_PI;
   
-  // Calculate raw index
-  const index = Math.floor(adjustedTheta / sliceAngle);
+  // Find the slice whose span contains the angle
+  let index = spans.findIndex(span => adjustedTheta >= span.start && adjustedTheta < span.end);
+  if (index === -1) {
+      // Outside a partial arc there is nothing to hit
+      if (spans[spans.length - 1].end < TWO_PI - 1e-9) return -1;
+      // Floating point drift right at 2PI belongs to the last slice
+      index = spans.length - 1;
+  }
   
   // Check if inside gap
-  // The gap is usually centered around the slice boundary, or at the start/end?
-  // Our renderer draws: startTheta = startAngle + index * sliceAngle + gapAngle / 2;
+  // Our renderer draws: startTheta = startAngle + span.start + gapAngle / 2;
   // So the slice starts AFTER the half-gap.
   // We need to check if we are in the "padding" zone of the slice.
   
-  const sliceStart = index * sliceAngle;
-  const relativeTheta = adjustedTheta - sliceStart;
+  const sliceAngle = spans[index].end - spans[index].start;
+  const relativeTheta = adjustedTheta - spans[index].start;
   
   // If we are in the first half-gap OR the last half-gap of the allocated slot
   // Effective Slice covers: [gapAngle/2, sliceAngle - gapAngle/2]
@@ -92,7 +202,7 @@ export function getIndexFromAngle(theta: number, itemCount: number, startAngle:
       return -1; // Inside Gap
   }
   
-  return index % itemCount;
+  return index;
 }
 
 /**
@@ -100,45 +210,170 @@ export function getIndexFromAngle(theta: number, itemCount: number, startAngle:
  * Requires knowledge of how many items are in the target ring.
  * @param point - The point relative to the center of the menu.
  * @param config - Menu configuration.
- * @param itemsCount - How many items are in the ring corresponding to the point's depth. 
- *                     If undefined/null, only depth is returned reliably.
+ * @param items - The items in the ring corresponding to the point's depth (or just their count
+ *                for an even split). If empty, only depth is returned reliably.
  */
 export function hitTest(
   point: Point, 
   config: BagelConfig, 
-  itemsCount: number = 0
+  items: RadialItem[] | number = 0
+): { depth: number; index: number; r: number; theta: number } {
+  return hitTestPolar(cartesianToPolar(point.x, point.y), config, items);
+}
+
+/**
+ * Same as hitTest, for a point that is already in polar coordinates.
+ */
+export function hitTestPolar(
+  { r, theta }: PolarPoint,
+  config: BagelConfig,
+  items: RadialItem[] | number = 0
 ): { depth: number; index: number; r: number; theta: number } {
-  const { r, theta } = cartesianToPolar(point.x, point.y);
-  
   // 1. Check Dead Zone
   if (config.deadZoneRadius && r < config.deadZoneRadius) {
     return { depth: -1, index: -1, r, theta };
   }
   
-  // 2. Calculate Depth
+  // 2. Check Arc (partial menus treat angles outside the arc as no hit)
+  if (!isAngleInArc(theta, config)) {
+    return { depth: -1, index: -1, r, theta };
+  }
+
+  // 3. Calculate Depth
   const depth = getDepth(r, config);
   
   if (depth < 0) {
      return { depth: -1, index: -1, r, theta };
   }
 
-  // 3. Calculate Index
+  // 4. Calculate Index
   // Calculate slice gap angle from pixel gap: gapAngle = gap / rMid
   // Use middle radius to match renderer logic
   let index = -1;
+  const itemsCount = typeof items === 'number' ? items : items.length;
   if (itemsCount > 0) {
-      // Calculate rInner iteratively to match renderer (accounts for ring gaps)
-      let rInner = config.innerRadius;
+      // Ring bounds match renderer (accounts for ring gaps)
+      const { rInner, rOuter } = getRingBounds(depth, config);
       const gapPixels = config.gap || 0;
-      for (let d = 0; d < depth; d++) {
-          rInner += config.ringWidth + gapPixels;
-      }
-      
-      const rOuter = rInner + config.ringWidth;
       const rMid = (rInner + rOuter) / 2; // Middle radius of the ring
       const gapAngle = gapPixels > 0 ? (gapPixels / rMid) : 0; // Convert pixel gap to angular gap
-      index = getIndexFromAngle(theta, itemsCount, config.startAngle, gapAngle);
+      index = getIndexFromAngle(theta, getSliceSpans(items, getArcSpan(config)), getArcStart(config), gapAngle);
   }
     
   return { depth, index, r, theta };
 }
+
+/**
+ * Number of rings the item tree can show at most.
+ */
+export function getTreeDepth(items: RadialItem[], depth: number = 0): number {
+    // Safety cap, same as the renderer's recursion guard
+    if (!items || items.length === 0 || depth > 100) return 0;
+    return 1 + Math.max(...items.map(item => getTreeDepth(item.children || [], depth + 1)));
+}
+
+/**
+ * Outer radius of the deepest ring the item tree can show.
+ */
+export function getMaxRadius(items: RadialItem[], config: BagelConfig): number {
+    const treeDepth = getTreeDepth(items);
+    if (treeDepth === 0) return config.innerRadius;
+    return getRingBounds(treeDepth - 1, config).rOuter;
+}
+
+/**
+ * Radius of the center hub disc, also the area that counts as a tap on it.
+ */
+export function getCenterRadius(config: BagelConfig): number {
+    return config.deadZoneRadius || 20;
+}
+
+const MIN_RECENTS_WIDTH = 10; // px, below this there is no room for a recents ring
+
+/**
+ * Band between the hub and the root ring that holds the recents ring, or null when it does not fit.
+ */
+export function getRecentsBounds(config: BagelConfig): { rInner: number; rOuter: number } | null {
+    const spacing = Math.max(2, config.gap || 0);
+    const rInner = getCenterRadius(config) + spacing;
+    const rOuter = config.innerRadius - spacing;
+    return rOuter - rInner >= MIN_RECENTS_WIDTH ? { rInner, rOuter } : null;
+}
+
+/**
+ * Slice of the recents ring (count even slices along the arc) under a point, or -1.
+ */
+export function getRecentIndex({ r, theta }: PolarPoint, count: number, config: BagelConfig): number {
+    const bounds = getRecentsBounds(config);
+    if (!bounds || count <= 0 || r < bounds.rInner || r > bounds.rOuter) return -1;
+    return getIndexFromAngle(theta, getSliceSpans(count, getArcSpan(config)), getArcStart(config));
+}
+
+/**
+ * Bounding box of the menu's arc (including the center hub) relative to its center.
+ * For a full circle this is simply [-radius, radius] on both axes.
+ */
+export function getArcBounds(config: BagelConfig, radius: number): { minX: number; maxX: number; minY: number; maxY: number } {
+    const arcStart = getArcStart(config);
+    const arcSpan = getArcSpan(config);
+
+    // Extremes are at the arc ends and at every axis crossing inside the arc
+    const angles = [arcStart, arcStart + arcSpan];
+    for (let quarter = Math.ceil(arcStart / (Math.PI / 2)); quarter * (Math.PI / 2) < arcStart + arcSpan; quarter++) {
+        angles.push(quarter * (Math.PI / 2));
+    }
+
+    let minX = 0, maxX = 0, minY = 0, maxY = 0;
+    for (const angle of angles) {
+        const x = Math.cos(angle) * radius;
+        const y = Math.sin(angle) * radius;
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+    }
+
+    return { minX, maxX, minY, maxY };
+}
+
+/**
+ * Places the menu at a contact point while keeping the rings inside the viewport.
+ * Partial arcs are flipped (rotated by PI) when that keeps more of them on screen,
+ * then the origin is clamped. Returns the origin and the startAngle to render with.
+ */
+export function fitMenuToViewport(
+    point: Point,
+    viewport: { width: number; height: number },
+    config: BagelConfig,
+    radius: number
+): { origin: Point; startAngle: number } {
+    const { startAngle = -Math.PI / 2 } = config;
+
+    const getOverflow = (bounds: ReturnType<typeof getArcBounds>) =>
+        Math.max(0, -(point.x + bounds.minX)) + Math.max(0, point.x + bounds.maxX - viewport.width) +
+        Math.max(0, -(point.y + bounds.minY)) + Math.max(0, point.y + bounds.maxY - viewport.height);
+
+    let resolvedAngle = startAngle;
+    let bounds = getArcBounds(config, radius);
+
+    if (getArcSpan(config) < TWO_PI) {
+        const flippedAngle = startAngle + Math.PI;
+        const flippedBounds = getArcBounds({ ...config, startAngle: flippedAngle }, radius);
+        if (getOverflow(flippedBounds) < getOverflow(bounds)) {
+            resolvedAngle = flippedAngle;
+            bounds = flippedBounds;
+        }
+    }
+
+    // Clamp per axis; if the menu is larger than the viewport, center it
+    const clampAxis = (value: number, min: number, max: number) =>
+        min > max ? (min + max) / 2 : Math.min(max, Math.max(min, value));
+
+    return {
+        origin: {
+            x: clampAxis(point.x, -bounds.minX, viewport.width - bounds.maxX),
+            y: clampAxis(point.y, -bounds.minY, viewport.height - bounds.maxY),
+        },
+        startAngle: resolvedAngle,
+    };
+}
@@ -0,0 +1,135 @@
+import { HistoryConfig, HistoryEntry, HistoryStorage, RadialItem } from '../types';
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_STORAGE_KEY = 'bagel-history';
+
+// A history entry that still resolves to a selectable leaf of the current tree
+export interface RecentItem {
+    item: RadialItem;
+    indices: number[];
+}
+
+function isEntry(value: unknown): value is HistoryEntry {
+    const entry = value as HistoryEntry;
+    return !!entry && Array.isArray(entry.ids) && entry.ids.length > 0 &&
+        entry.ids.every(id => typeof id === 'string') && typeof entry.time === 'number';
+}
+
+function isSameEntry(a: HistoryEntry, b: HistoryEntry): boolean {
+    return a.ids.length === b.ids.length && a.ids.every((id, i) => id === b.ids[i]);
+}
+
+/**
+ * Storage adapter over localStorage (JSON under one key). Quietly keeps nothing where
+ * storage is unavailable or full, e.g. in private browsing.
+ */
+export function createLocalStorageHistory(key: string = DEFAULT_STORAGE_KEY): HistoryStorage {
+    return {
+        load() {
+            try {
+                const stored = localStorage.getItem(key);
+                return stored ? JSON.parse(stored) : null;
+            } catch {
+                return null;
+            }
+        },
+        save(entries) {
+            try {
+                localStorage.setItem(key, JSON.stringify(entries));
+            } catch {
+                // Not persisted, the history still works for this session
+            }
+        }
+    };
+}
+
+/**
+ * Recent selections by item id path, most recent first. Selecting something again moves it
+ * to the front, so the list doubles as a "recents" list without duplicates.
+ */
+export class SelectionHistory {
+    private entries: HistoryEntry[] = [];
+    private limit: number = DEFAULT_LIMIT;
+    private storage: HistoryStorage | null = null;
+    private highlighted: number = -1; // Recents slice under the pointer
+    private listeners: Set<() => void> = new Set();
+
+    public subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+
+    /**
+     * Applies limit and storage; a new storage is loaded and merged behind what is already recorded
+     */
+    public configure({ limit = DEFAULT_LIMIT, storage }: HistoryConfig = {}) {
+        const safeLimit = Math.max(1, Math.floor(limit) || DEFAULT_LIMIT);
+        if (safeLimit !== this.limit) {
+            this.limit = safeLimit;
+            this.entries = this.entries.slice(0, safeLimit);
+            this.save();
+            this.notify();
+        }
+
+        if ((storage ?? null) === this.storage) return;
+        this.storage = storage ?? null;
+        if (!storage) return;
+
+        Promise.resolve(storage.load()).then(loaded => {
+            if (this.storage !== storage || !Array.isArray(loaded)) return;
+            const merged = [...this.entries];
+            loaded.filter(isEntry).forEach(entry => {
+                if (!merged.some(existing => isSameEntry(existing, entry))) merged.push(entry);
+            });
+            this.entries = merged.slice(0, this.limit);
+            // Storage holds what the menu shows: merged and trimmed
+            this.save();
+            this.notify();
+        }).catch(() => {
+            // Nothing to restore
+        });
+    }
+
+    public getEntries(): readonly HistoryEntry[] {
+        return this.entries;
+    }
+
+    public getLast(): HistoryEntry | null {
+        return this.entries[0] ?? null;
+    }
+
+    public record(ids: string[]) {
+        if (ids.length === 0) return;
+        const entry: HistoryEntry = { ids: [...ids], time: Date.now() };
+        this.entries = [entry, ...this.entries.filter(existing => !isSameEntry(existing, entry))].slice(0, this.limit);
+        this.save();
+        this.notify();
+    }
+
+    public clear() {
+        this.entries = [];
+        this.save();
+        this.notify();
+    }
+
+    public getHighlighted(): number {
+        return this.highlighted;
+    }
+
+    /**
+     * Recents slice under the pointer, -1 for none
+     */
+    public setHighlighted(index: number) {
+        if (index === this.highlighted) return;
+        this.highlighted = index;
+        this.notify();
+    }
+
+    private save() {
+        if (this.storage) this.storage.save(this.entries);
+    }
+}
@@ -1,109 +1,284 @@
 import { BagelConfig, Point, RadialItem } from '../types';
 import { BagelStateManager, MenuStatus } from './state';
-import { hitTest } from './geometry';
-import { CanvasRenderer } from '../renderer/canvas';
+import { cartesianToPolar } from './geometry';
+import { NavigationEngine, NavigationIntent, PointerSample } from './navigation';
+import { matchesShortcut } from './shortcuts';
+import { BagelRenderer, RenderSurface } from '../renderer/types';
+
+// Keys that drive the menu while it is open
+const KEY_INTENTS: Record<string, NavigationIntent> = {
+    ArrowRight: 'next',
+    ArrowLeft: 'previous',
+    ArrowUp: 'out',
+    ArrowDown: 'in',
+    Enter: 'confirm',
+    Escape: 'cancel',
+};
+
+/**
+ * Whether keys go to a text field (the repeat key also works while the menu is closed)
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+}
 
+/**
+ * DOM adapter: turns pointer and keyboard events on the render surface (and the attach target)
+ * into NavigationEngine input, and drives the engine's timers.
+ */
 export class InputController {
-    private canvas: HTMLCanvasElement;
+    private surface: RenderSurface;
     private stateManager: BagelStateManager;
-    private renderer: CanvasRenderer;
+    private renderer: BagelRenderer;
     private config: BagelConfig;
-    private rootItems: RadialItem[];
+    private engine: NavigationEngine;
+
+    // Wakes the engine when a hold or a marking pause may have elapsed
+    private engineTimer: number | null = null;
 
-    private holdTimer: number | null = null;
-    private holdStartPosition: Point | null = null;
-    private readonly HOLD_THRESHOLD = 200; // ms
-    private readonly MOVEMENT_BUFFER = 10; // px
+    // Attach mode: the menu opens at the contact point on a target element
+    private attachTarget: HTMLElement | null = null;
+    private onAttachTrigger: ((clientPoint: Point) => void) | null = null;
+    private attachPointerId: number | null = null;
+    private longPressTimer: number | null = null;
+    private longPressStart: Point | null = null;
+    private readonly DEFAULT_LONG_PRESS_DELAY = 400; // ms, shorter than the native long-press context menu
+    private readonly DEFAULT_MOVEMENT_BUFFER = 10; // px
+
+    // Keyboard type-ahead
+    private typeAheadBuffer: string = '';
+    private lastTypeAhead: number = 0;
+    private readonly TYPE_AHEAD_TIMEOUT = 700; // ms between keys before the prefix starts over
 
     constructor(
-        canvas: HTMLCanvasElement,
+        surface: RenderSurface,
         stateManager: BagelStateManager,
-        renderer: CanvasRenderer,
+        renderer: BagelRenderer,
         config: BagelConfig,
         items: RadialItem[]
     ) {
-        this.canvas = canvas;
+        this.surface = surface;
         this.stateManager = stateManager;
         this.renderer = renderer;
         this.config = config;
-        this.rootItems = items;
+        this.engine = new NavigationEngine(stateManager, config, items);
+        this.engine.setRecentsShown(renderer.drawsRecents);
 
         this.setupListeners();
 
         // Prevent default browser touch actions (scrolling/zooming)
-        this.canvas.style.touchAction = 'none';
-        this.canvas.style.userSelect = 'none';
+        this.surface.style.touchAction = 'none';
+        this.surface.style.userSelect = 'none';
     }
 
     public updateConfig(newConfig: BagelConfig) {
         this.config = newConfig;
+        this.engine.updateConfig(newConfig);
     }
 
     public updateItems(newItems: RadialItem[]) {
-        this.rootItems = newItems;
+        this.engine.updateItems(newItems);
     }
 
     public destroy() {
         this.removeListeners();
-        if (this.holdTimer) {
-            window.clearTimeout(this.holdTimer);
-        }
+        this.detach();
+        this.cancelLongPress();
+        this.clearEngineTimer();
+        this.engine.destroy();
     }
 
     private setupListeners() {
-        this.canvas.addEventListener('pointerdown', this.onPointerDown);
-        this.canvas.addEventListener('pointermove', this.onPointerMove);
-        this.canvas.addEventListener('pointerup', this.onPointerUp);
-        this.canvas.addEventListener('pointercancel', this.onPointerUp); // Treat cancel like up
+        // <canvas> and <svg> share the pointer event map, the union just doesn't resolve the overloads
+        const surface = this.surface as HTMLElement;
+        surface.addEventListener('pointerdown', this.onPointerDown);
+        surface.addEventListener('pointermove', this.onPointerMove);
+        surface.addEventListener('pointerup', this.onPointerUp);
+        surface.addEventListener('pointercancel', this.onPointerUp); // Treat cancel like up
         window.addEventListener('keydown', this.onKeyDown);
     }
 
     private removeListeners() {
-        this.canvas.removeEventListener('pointerdown', this.onPointerDown);
-        this.canvas.removeEventListener('pointermove', this.onPointerMove);
-        this.canvas.removeEventListener('pointerup', this.onPointerUp);
-        this.canvas.removeEventListener('pointercancel', this.onPointerUp);
+        const surface = this.surface as HTMLElement;
+        surface.removeEventListener('pointerdown', this.onPointerDown);
+        surface.removeEventListener('pointermove', this.onPointerMove);
+        surface.removeEventListener('pointerup', this.onPointerUp);
+        surface.removeEventListener('pointercancel', this.onPointerUp);
         window.removeEventListener('keydown', this.onKeyDown);
     }
 
+    /**
+     * Attach mode: a long-press, right-click or pen-button press on the target opens the menu
+     * at the contact point. onTrigger receives that point in client coordinates and must move
+     * the menu there before returning, so hit testing is relative to the new center.
+     */
+    public attach(target: HTMLElement, onTrigger: (clientPoint: Point) => void) {
+        this.detach();
+        this.attachTarget = target;
+        this.onAttachTrigger = onTrigger;
+
+        target.addEventListener('pointerdown', this.onTargetPointerDown);
+        target.addEventListener('pointermove', this.onTargetPointerMove);
+        target.addEventListener('pointerup', this.onTargetPointerUp);
+        target.addEventListener('pointercancel', this.onTargetPointerUp);
+        target.addEventListener('contextmenu', this.onTargetContextMenu);
+    }
+
+    public detach() {
+        if (!this.attachTarget) return;
+
+        this.attachTarget.removeEventListener('pointerdown', this.onTargetPointerDown);
+        this.attachTarget.removeEventListener('pointermove', this.onTargetPointerMove);
+        this.attachTarget.removeEventListener('pointerup', this.onTargetPointerUp);
+        this.attachTarget.removeEventListener('pointercancel', this.onTargetPointerUp);
+        this.attachTarget.removeEventListener('contextmenu', this.onTargetContextMenu);
+        this.attachTarget = null;
+        this.onAttachTrigger = null;
+        this.attachPointerId = null;
+    }
+
+    private onTargetPointerDown = (event: PointerEvent) => {
+        if (this.stateManager.getState().status !== MenuStatus.CLOSED) return;
+
+        const clientPoint = { x: event.clientX, y: event.clientY };
+
+        // Pen barrel button: open right away and keep gliding with the pen
+        if (event.pointerType === 'pen' && (event.buttons & 2) !== 0) {
+            event.preventDefault();
+            this.openAtContact(clientPoint, event.pointerId);
+            return;
+        }
+
+        // Mouse right-click is handled by the contextmenu event
+        if (!event.isPrimary || event.button !== 0) return;
+
+        // Start the long-press timer
+        this.cancelLongPress();
+        this.longPressStart = clientPoint;
+        this.attachPointerId = event.pointerId;
+        this.longPressTimer = window.setTimeout(() => {
+            this.longPressTimer = null;
+            this.longPressStart = null;
+            this.openAtContact(clientPoint, this.attachPointerId);
+        }, this.config.gesture?.longPressDelay ?? this.DEFAULT_LONG_PRESS_DELAY);
+    };
+
+    private onTargetPointerMove = (event: PointerEvent) => {
+        if (!this.longPressTimer || !this.longPressStart || event.pointerId !== this.attachPointerId) return;
+
+        const dx = event.clientX - this.longPressStart.x;
+        const dy = event.clientY - this.longPressStart.y;
+
+        if (Math.sqrt(dx * dx + dy * dy) > (this.config.gesture?.movementBuffer ?? this.DEFAULT_MOVEMENT_BUFFER)) {
+            // A drag on the target belongs to the app, not to the menu
+            this.cancelLongPress();
+        }
+    };
+
+    private onTargetPointerUp = (event: PointerEvent) => {
+        if (event.pointerId === this.attachPointerId) {
+            this.cancelLongPress();
+        }
+    };
+
+    private onTargetContextMenu = (event: MouseEvent) => {
+        // Always suppress the native menu on the target, the radial menu replaces it
+        event.preventDefault();
+        if (this.stateManager.getState().status !== MenuStatus.CLOSED) return;
+
+        this.cancelLongPress();
+        // Click-style open: the button is released right away, so no glide
+        this.openAtContact({ x: event.clientX, y: event.clientY }, null);
+    };
+
+    private cancelLongPress() {
+        if (this.longPressTimer) {
+            window.clearTimeout(this.longPressTimer);
+            this.longPressTimer = null;
+        }
+        this.longPressStart = null;
+        this.attachPointerId = null;
+    }
+
+    /**
+     * Opens the menu centered on a contact point (client coordinates).
+     * If the press is still active, it is handed over to the menu surface for gliding.
+     */
+    private openAtContact(clientPoint: Point, pointerId: number | null) {
+        if (this.onAttachTrigger) this.onAttachTrigger(clientPoint);
+
+        const point = this.getRelativePoint({ clientX: clientPoint.x, clientY: clientPoint.y });
+        let captured = false;
+        if (pointerId !== null) {
+            try {
+                this.surface.setPointerCapture(pointerId);
+                captured = true;
+            } catch {
+                // Pointer was released in the meantime, stay open without gliding
+            }
+        }
+        this.attachPointerId = null;
+
+        if (captured) {
+            this.engine.pointerDown(this.toSample(point), true);
+            this.scheduleEngineUpdate();
+        } else {
+            this.engine.open('pointer');
+        }
+
+        this.renderer.updateCursor(point);
+    }
+
     /**
      * Converts pointer event to center-relative coordinates.
      */
-    private getRelativePoint(event: PointerEvent): Point {
-        const rect = this.canvas.getBoundingClientRect();
+    private getRelativePoint(event: { clientX: number; clientY: number }): Point {
+        const rect = this.surface.getBoundingClientRect();
         const x = event.clientX - rect.left - rect.width / 2;
         const y = event.clientY - rect.top - rect.height / 2;
         return { x, y };
     }
 
+    /**
+     * Center-relative point as an engine sample, timestamped on the performance.now() clock.
+     */
+    private toSample(point: Point): PointerSample {
+        return { ...cartesianToPolar(point.x, point.y), time: performance.now() };
+    }
+
+    /**
+     * Keeps one timer armed for the engine's next deadline (hold threshold, marking pause).
+     */
+    private scheduleEngineUpdate() {
+        this.clearEngineTimer();
+        const deadline = this.engine.getNextDeadline();
+        if (deadline === null) return;
+
+        this.engineTimer = window.setTimeout(() => {
+            this.engineTimer = null;
+            this.engine.update(performance.now());
+            this.scheduleEngineUpdate();
+        }, Math.max(0, deadline - performance.now()));
+    }
+
+    private clearEngineTimer() {
+        if (this.engineTimer) {
+            window.clearTimeout(this.engineTimer);
+            this.engineTimer = null;
+        }
+    }
+
     private onPointerDown = (event: PointerEvent) => {
         // Only handle primary pointer
         if (!event.isPrimary) return;
 
-        this.canvas.setPointerCapture(event.pointerId);
+        this.surface.setPointerCapture(event.pointerId);
 
         const point = this.getRelativePoint(event);
-        this.holdStartPosition = point;
-
-        // Determine initial hit
-        // If we are closed, we might want to open? Or assumes we are already open?
-        // PRD implies menu might be invoked here or is already visible.
-        // Assuming "Bagel" is a radial menu that appears or is interactive.
-        // If Status is CLOSED, maybe we don't interact unless this is the trigger?
-        // Let's assume the controller manages an OPEN menu, or opens it.
-        // If CLOSED, we can open it at the center?
-        // For now, let's assume we are interacting with an existing/visible component.
-
-        if (this.stateManager.getState().status === MenuStatus.CLOSED) {
-            this.stateManager.setStatus(MenuStatus.OPEN);
-        }
-
-        // Start Hold Timer for Glide Mode
-        this.holdTimer = window.setTimeout(() => {
-            this.stateManager.setStatus(MenuStatus.GLIDING);
-            // Trigger initial vibration for entering glide mode
-            if (navigator.vibrate) navigator.vibrate(20);
-        }, this.HOLD_THRESHOLD);
+        this.engine.pointerDown(this.toSample(point));
+        this.scheduleEngineUpdate();
 
         // Update renderer cursor immediately
         this.renderer.updateCursor(point);
@@ -113,329 +288,108 @@ export class InputController {
         const point = this.getRelativePoint(event);
         this.renderer.updateCursor(point);
 
-        const state = this.stateManager.getState();
-
-        // Check movement buffer for hold timer
-        if (this.holdTimer && this.holdStartPosition) {
-            const dx = point.x - this.holdStartPosition.x;
-            const dy = point.y - this.holdStartPosition.y;
-            const dist = Math.sqrt(dx * dx + dy * dy);
-
-            if (dist > this.MOVEMENT_BUFFER) {
-                // Moved too much before threshold, cancel hold, treating as normal interaction (drag/swipe?)
-                // Or if we move significant amount, maybe we enter GLIDING immediately?
-                // User requirements: "If timer completes ... set to GLIDING".
-                // Implicit: If moved before timer, maybe it's just a tap-drag or we cancel the specific "Hold" trigger?
-                // Actually, for a radial menu, dragging IS gliding.
-                // Let's say if we move significantly, we just enter gliding mode early to be responsive.
-                window.clearTimeout(this.holdTimer);
-                this.holdTimer = null;
-                if (state.status !== MenuStatus.GLIDING) {
-                    this.stateManager.setStatus(MenuStatus.GLIDING);
-                }
-            }
-        }
-
-        if (state.status === MenuStatus.GLIDING || state.status === MenuStatus.OPEN) {
-            this.handleHitTest(point);
-        }
+        this.engine.pointerMove(this.toSample(point));
+        this.scheduleEngineUpdate();
     };
 
     private onPointerUp = (event: PointerEvent) => {
         const point = this.getRelativePoint(event);
         this.renderer.updateCursor(null); // Clear cursor
+        this.clearEngineTimer();
+        this.surface.releasePointerCapture(event.pointerId);
 
-        if (this.holdTimer) {
-            window.clearTimeout(this.holdTimer);
-            this.holdTimer = null;
-        }
-
-        const state = this.stateManager.getState();
-        this.canvas.releasePointerCapture(event.pointerId);
-
-        // Finalize selection
-        if (state.status === MenuStatus.GLIDING || state.status === MenuStatus.OPEN) {
-            // If we are gliding, the last active path is our potential selection.
-            // But we need to verify we released OVER the item, or if we released outside?
-            // "Glide Logic: While gliding, the activePath updates in real-time."
-            // "Glide Release: ... If a Leaf item ... emit select."
-
-            // We should do one final hit test to be sure
-            const hit = this.resolveHit(point);
-
-            if (hit && hit.item) {
-                // Check if leaf
-                if (!hit.item.children || hit.item.children.length === 0) {
-                    this.confirmSelection(state.activePath);
-                } else {
-                    // Drill down (expand path) - already handled by hover updating activePath
-                    // But maybe we want to keep it open?
-                    // If it's a "tap" on a parent, maybe we just leave it open at that depth?
-                    // If it's a "glide release" on a parent, maybe we assume they wanted to go deeper but stopped?
-                    // Standard behavior: Release on parent -> stay open or do nothing?
-                    // Requirement: "If an item has children, 'Drill Down' by expanding the path."
-                    // Since we update activePath on hover, we are already drilled down.
-                    // So we just need to decide if we close or not.
-                    // If leaf -> select and close.
-                    // If parent -> maybe keep open?
-                }
-            } else {
-                // Tapped outside or deadzone?
-                // "Close the menu if the center was tapped or an empty area was released."
-                if (hit && hit.depth === -1) {
-                    this.stateManager.setStatus(MenuStatus.CLOSED);
-                    this.stateManager.reset();
-                }
-            }
-
-            // Reset status to OPEN if we didn't close, so we exit GLIDING?
-            if (this.stateManager.getState().status !== MenuStatus.CLOSED) {
-                this.stateManager.setStatus(MenuStatus.OPEN);
-            }
-        }
+        this.engine.pointerUp(this.toSample(point));
     };
 
     private onKeyDown = (event: KeyboardEvent) => {
-        const state = this.stateManager.getState();
-        if (state.status === MenuStatus.CLOSED) return;
-
-        // Simple keyboard navigation
-        // Arrow Up/Down: Change Depth (if possible?) -> Actually Left/Right is better for rotation in ring
-        // Arrow Left/Right: Rotate index in current ring
-        // Enter: Select
-        // Esc: Close
-
-        if (event.key === 'Escape') {
-            this.stateManager.setStatus(MenuStatus.CLOSED);
-            this.stateManager.reset();
+        if (this.stateManager.getState().status === MenuStatus.CLOSED) {
+            this.repeatOnKey(event);
             return;
         }
 
-        const currentPath = [...state.activePath];
-        const currentDepth = currentPath.length > 0 ? currentPath.length - 1 : 0; // The ring we are "focused" on
-
-        // Determine items at current depth
-        let itemsAtDepth = this.rootItems;
-        for (let i = 0; i < currentDepth; i++) {
-            itemsAtDepth = itemsAtDepth[currentPath[i]]?.children || [];
+        const intent = KEY_INTENTS[event.key];
+        if (intent) {
+            if (intent !== 'cancel') event.preventDefault();
+            this.engine.handleIntent(intent, 'keyboard');
+            this.typeAheadBuffer = '';
+            return;
         }
 
-        const count = itemsAtDepth.length;
-        let currentIndex = currentPath[currentDepth] !== undefined ? currentPath[currentDepth] : -1;
+        // Characters typed into a form field belong to it, not to the menu
+        if (isEditableTarget(event.target)) return;
 
-        if (event.key === 'ArrowRight') {
-            event.preventDefault();
-            currentIndex = (currentIndex + 1) % count;
-            currentPath[currentDepth] = currentIndex;
-            this.stateManager.setActivePath(currentPath);
-        } else if (event.key === 'ArrowLeft') {
-            event.preventDefault();
-            currentIndex = (currentIndex - 1 + count) % count;
-            currentPath[currentDepth] = currentIndex;
-            this.stateManager.setActivePath(currentPath);
-        } else if (event.key === 'ArrowUp') {
+        // Item accelerators first, so an item may claim a digit or a letter
+        if (this.engine.activateShortcut(shortcut => matchesShortcut(shortcut, event))) {
             event.preventDefault();
-            // Go out a level?
-            if (currentPath.length > 0) {
-                currentPath.pop();
-                this.stateManager.setActivePath(currentPath);
-            }
-        } else if (event.key === 'ArrowDown') {
-            event.preventDefault();
-            // Go in a level if selected item has children
-            if (currentIndex !== -1 && itemsAtDepth[currentIndex]?.children?.length) {
-                // Select first child
-                currentPath.push(0);
-                this.stateManager.setActivePath(currentPath);
-            }
-        } else if (event.key === 'Enter') {
-            event.preventDefault();
-            if (currentIndex !== -1) {
-                const item = itemsAtDepth[currentIndex];
-                if (!item.children || item.children.length === 0) {
-                    this.confirmSelection(currentPath);
-                }
-            }
+            this.typeAheadBuffer = '';
+            return;
         }
-    };
 
-    /**
-     * Helper to perform hit test against current state logic
-     */
-    private resolveHit(point: Point) {
-        let targetDepth = hitTest(point, this.config).depth; // First get depth blindly
-
-        // Safety Cap to prevent potential infinite loops
-        if (targetDepth > 100) targetDepth = 100;
-
-        if (targetDepth === -1) return { depth: -1, index: -1, item: null };
-
-        // Atomic Path Resolution from Root
-        // We do NOT trust the current state.activePath. We rebuild it based on geometry.
-        
-        let currentItems = this.rootItems;
-        let resolvedIndex = -1;
-        let resolvedItem: RadialItem | null = null;
-        let actualDepth = -1;
-
-        // Walk from 0 to targetDepth
-        for (let d = 0; d <= targetDepth; d++) {
-            if (!currentItems || currentItems.length === 0) {
-                // If we ran out of items before reaching target depth, stop here.
-                break;
-            }
-
-            // Calculate index for THIS depth based on the angle
-            // Pass the item count at this level so geometry knows how to slice the pie
-            const { index } = hitTest(point, this.config, currentItems.length);
-            
-            // Gap Check: hitTest returns -1 if in deadzone, but index logic might be loose?
-            // Our hitTest already calls getIndexFromAngle which should handle it.
-            // If index is valid, we proceed.
-            
-            if (index === -1) {
-                // We are in a valid ring depth, but hit a gap or invalid angle?
-                // If we hit a gap at depth 0, we can't be at depth 1.
-                // So the entire hit is invalid/gap.
-                return { depth: d, index: -1, item: null };
-            }
-            
-            const item = currentItems[index];
-            
-            // Update our "best guess" so far
-            resolvedIndex = index;
-            resolvedItem = item;
-            actualDepth = d;
-
-            if (d < targetDepth) {
-                // Prepare for next iteration (Drill down)
-                // If this item has children, they become the context for the next ring
-                if (item.children && item.children.length > 0) {
-                    currentItems = item.children;
-                } else {
-                    // We hit a leaf before the target depth (e.g. mouse is far out, but branch ended)
-                    // The user is technically "hovering" the leaf, just far away.
-                    // We stop here.
-                    break;
-                }
-            }
+        if (this.repeatOnKey(event)) {
+            this.typeAheadBuffer = '';
+            return;
         }
 
-        return { depth: actualDepth, index: resolvedIndex, item: resolvedItem };
-    }
+        const hasCommandModifier = event.ctrlKey || event.altKey || event.metaKey;
+        if (hasCommandModifier || event.key.length !== 1) return;
+        if (event.timeStamp - this.lastTypeAhead > this.TYPE_AHEAD_TIMEOUT) this.typeAheadBuffer = '';
 
-    private handleHitTest(point: Point) {
-        const state = this.stateManager.getState();
-        const currentDepth = state.activePath.length > 0 ? state.activePath.length - 1 : 0;
-        
-        // First, determine what depth we're actually at based on radius
-        const targetDepth = hitTest(point, this.config).depth;
-        
-        if (targetDepth === -1) {
-            // In dead zone - clear selection
-            if (state.activePath.length > 0) {
-                this.stateManager.setActivePath([]);
-            }
+        // 1-9: slices of the focused ring in clockwise order (digits inside a typed prefix are text)
+        if (/^[1-9]$/.test(event.key) && !this.typeAheadBuffer) {
+            event.preventDefault();
+            this.engine.activate(Number(event.key) - 1, 'keyboard');
             return;
         }
-        
-        let finalPath: number[] = [];
-        
-        // CRITICAL: When in a nested ring (depth > 0), respect the current parent
-        // Only calculate index for the current depth using current parent's children
-        if (currentDepth > 0 && targetDepth === currentDepth) {
-            // Staying in the same nested ring - use current parent, only update index
-            finalPath = [...state.activePath];
-            
-            // Get the items at current depth (children of current parent)
-            let currentItems = this.rootItems;
-            for (let i = 0; i < currentDepth; i++) {
-                currentItems = currentItems[state.activePath[i]]?.children || [];
-            }
-            
-            // Calculate index at current depth using current parent's children
-            if (currentItems.length > 0) {
-                const { index } = hitTest(point, this.config, currentItems.length);
-                if (index !== -1) {
-                    finalPath[currentDepth] = index;
-                } else {
-                    // In a gap - don't update
-                    return;
-                }
-            } else {
-                return; // No items at this depth
-            }
-        } else if (targetDepth < currentDepth) {
-            // Moved back to a shallower depth - rebuild from root
-            finalPath = [];
-            let currentItems = this.rootItems;
-            
-            for (let d = 0; d <= targetDepth; d++) {
-                if (!currentItems || currentItems.length === 0) break;
-                
-                const { index } = hitTest(point, this.config, currentItems.length);
-                if (index === -1) break; // In a gap
-                
-                finalPath.push(index);
-                if (d < targetDepth) {
-                    const item = currentItems[index];
-                    currentItems = item?.children || [];
-                }
-            }
-        } else {
-            // At root level or moving deeper - rebuild from root
-            finalPath = [];
-            let currentItems = this.rootItems;
-            
-            for (let d = 0; d <= targetDepth; d++) {
-                if (!currentItems || currentItems.length === 0) break;
-                
-                const { index } = hitTest(point, this.config, currentItems.length);
-                if (index === -1) break; // In a gap
-                
-                finalPath.push(index);
-                if (d < targetDepth) {
-                    const item = currentItems[index];
-                    currentItems = item?.children || [];
-                }
-            }
-        }
 
-        // Only update if path actually changed
-        const pathChanged = finalPath.length !== state.activePath.length ||
-            finalPath.some((v, i) => v !== state.activePath[i]);
+        // Type-ahead: keys typed in quick succession form a label prefix
+        if (event.key === ' ' && !this.typeAheadBuffer) return;
+        this.lastTypeAhead = event.timeStamp;
+        this.typeAheadBuffer += event.key;
+        if (this.engine.typeAhead(this.typeAheadBuffer, 'keyboard')) event.preventDefault();
+    };
 
-        if (pathChanged) {
-            this.stateManager.setActivePath(finalPath);
-            if (navigator.vibrate) navigator.vibrate(10);
-        }
+    /**
+     * history.repeatKey: selects the last selection again. Returns whether the key was the repeat key.
+     */
+    private repeatOnKey(event: KeyboardEvent): boolean {
+        const repeatKey = this.config.history?.repeatKey;
+        if (!repeatKey || !matchesShortcut(repeatKey, event) || isEditableTarget(event.target)) return false;
+        event.preventDefault();
+        this.engine.repeat(0, 'keyboard');
+        return true;
     }
 
-    private confirmSelection(pathIndices: number[]) {
-        // Reconstruct items from indices
-        const pathItems: RadialItem[] = [];
-        let currentList = this.rootItems;
-        for (const idx of pathIndices) {
-            const item = currentList[idx];
-            if (item) {
-                pathItems.push(item);
-                currentList = item.children || [];
-            } else {
-                break;
-            }
-        }
+    /**
+     * Programmatic control, used by imperative handles (toolbar buttons, hotkeys).
+     */
+    public open() {
+        this.engine.open();
+    }
 
-        this.stateManager.setSelection(pathIndices);
-        this.stateManager.setStatus(MenuStatus.CLOSED);
-        this.stateManager.reset(); // Reset internal state after closing
+    public close() {
+        this.clearEngineTimer();
+        this.engine.close();
+    }
 
-        const lastItem = pathItems[pathItems.length - 1];
+    public highlight(pathIndices: number[]) {
+        this.engine.highlight(pathIndices);
+    }
 
-        // Trigger callback
-        if (lastItem) {
-            if (lastItem.action) lastItem.action();
-            if (lastItem.onSelect) lastItem.onSelect(pathItems);
-        }
+    public navigateTo(pathIndices: number[]) {
+        this.engine.navigateTo(pathIndices);
+    }
+
+    /**
+     * False when the path is not an enabled leaf
+     */
+    public select(pathIndices: number[]): boolean {
+        return this.engine.select(pathIndices);
     }
-}
 
+    /**
+     * Selects a history entry again, 0 being the last selection
+     */
+    public repeat(index: number = 0): boolean {
+        return this.engine.repeat(index);
+    }
+}
@@ -0,0 +1,46 @@
+import { RadialItem } from '../types';
+
+/**
+ * Item flags may be plain booleans or predicates evaluated at interaction time,
+ * so availability can change without rebuilding the items array.
+ */
+function resolveFlag(flag: boolean | (() => boolean) | undefined): boolean {
+    return typeof flag === 'function' ? flag() : !!flag;
+}
+
+export function isItemHidden(item: RadialItem): boolean {
+    return resolveFlag(item.hidden);
+}
+
+export function isItemDisabled(item: RadialItem): boolean {
+    return resolveFlag(item.disabled);
+}
+
+/**
+ * Toggle, checkbox and radio items carry a checked state.
+ */
+export function isItemCheckable(item: RadialItem): boolean {
+    return item.type === 'toggle' || item.type === 'checkbox' || item.type === 'radio';
+}
+
+/**
+ * Items that take up a slice. Hidden items are skipped entirely, so slice indices
+ * (and activePath) always refer to this filtered list.
+ */
+export function getVisibleItems(items: RadialItem[]): RadialItem[] {
+    if (!items.some(item => item.hidden)) return items;
+    return items.filter(item => !isItemHidden(item));
+}
+
+/**
+ * Walks from `from` in `step` direction (wrapping around) to the next enabled item.
+ * Returns -1 if every item is disabled.
+ */
+export function findEnabledIndex(items: RadialItem[], from: number, step: 1 | -1): number {
+    const count = items.length;
+    for (let i = 0; i < count; i++) {
+        const index = ((from + step * i) % count + count) % count;
+        if (!isItemDisabled(items[index])) return index;
+    }
+    return -1;
+}
@@ -0,0 +1,126 @@
+import { BagelConfig, MarkingMenuConfig, Point, RadialItem } from '../types';
+import { cartesianToPolar, getArcSpan, getArcStart, getIndexFromAngle, getSliceSpans } from './geometry';
+
+const DEFAULT_CORNER_ANGLE = Math.PI / 3; // 60 degrees
+const DEFAULT_MIN_SEGMENT_LENGTH = 20; // px
+const RESAMPLE_SPACING = 6; // px, smooths out pointer jitter before measuring turns
+
+/**
+ * A straight piece of a stroke, from one corner to the next.
+ */
+export interface StrokeSegment {
+    start: Point;
+    end: Point;
+}
+
+/**
+ * Keeps only points at least `spacing` apart so direction changes are measured on
+ * meaningful movement rather than sub-pixel noise.
+ */
+function resampleStroke(points: Point[], spacing: number): Point[] {
+    if (points.length === 0) return [];
+
+    const resampled = [points[0]];
+    for (let i = 1; i < points.length; i++) {
+        const last = resampled[resampled.length - 1];
+        if (Math.hypot(points[i].x - last.x, points[i].y - last.y) >= spacing) {
+            resampled.push(points[i]);
+        }
+    }
+
+    // Always keep the release point
+    const lastPoint = points[points.length - 1];
+    if (resampled[resampled.length - 1] !== lastPoint && resampled.length > 1) {
+        resampled[resampled.length - 1] = lastPoint;
+    }
+
+    return resampled;
+}
+
+/**
+ * Angle between two direction vectors in [0, PI].
+ */
+function getTurnAngle(a: Point, b: Point): number {
+    const lengths = Math.hypot(a.x, a.y) * Math.hypot(b.x, b.y);
+    if (lengths === 0) return 0;
+    const cos = (a.x * b.x + a.y * b.y) / lengths;
+    return Math.acos(Math.max(-1, Math.min(1, cos)));
+}
+
+/**
+ * Splits a recorded stroke at sharp corners.
+ * Segments shorter than minSegmentLength are treated as jitter and dropped.
+ */
+export function splitStroke(
+    points: Point[],
+    cornerAngle: number = DEFAULT_CORNER_ANGLE,
+    minSegmentLength: number = DEFAULT_MIN_SEGMENT_LENGTH
+): StrokeSegment[] {
+    const resampled = resampleStroke(points, RESAMPLE_SPACING);
+    if (resampled.length < 2) return [];
+
+    const segments: StrokeSegment[] = [];
+    let segmentStart = 0;
+
+    for (let i = 1; i < resampled.length - 1; i++) {
+        // Compare the direction so far in this segment with the direction right after this point
+        const incoming = {
+            x: resampled[i].x - resampled[segmentStart].x,
+            y: resampled[i].y - resampled[segmentStart].y
+        };
+        const next = resampled[Math.min(i + 2, resampled.length - 1)];
+        const outgoing = { x: next.x - resampled[i].x, y: next.y - resampled[i].y };
+
+        if (Math.hypot(incoming.x, incoming.y) < minSegmentLength) continue;
+
+        if (getTurnAngle(incoming, outgoing) > cornerAngle) {
+            segments.push({ start: resampled[segmentStart], end: resampled[i] });
+            segmentStart = i;
+        }
+    }
+
+    const start = resampled[segmentStart];
+    const end = resampled[resampled.length - 1];
+    if (Math.hypot(end.x - start.x, end.y - start.y) >= minSegmentLength) {
+        segments.push({ start, end });
+    }
+
+    return segments;
+}
+
+/**
+ * Matches each stroke segment's direction against the ring at the same depth.
+ * Returns the resolved path; recognition stops at the first segment that misses
+ * (outside a partial arc) or once a leaf is reached.
+ */
+export function recognizeMarkingPath(
+    points: Point[],
+    rootItems: RadialItem[],
+    config: BagelConfig,
+    options: MarkingMenuConfig = {},
+    getChildren: (item: RadialItem) => RadialItem[] = (item) => item.children || []
+): { indices: number[]; items: RadialItem[] } {
+    const segments = splitStroke(points, options.cornerAngle, options.minSegmentLength);
+    const indices: number[] = [];
+    const items: RadialItem[] = [];
+
+    const arcStart = getArcStart(config);
+    const arcSpan = getArcSpan(config);
+    let currentItems = rootItems;
+
+    for (const segment of segments) {
+        if (!currentItems || currentItems.length === 0) break;
+
+        // Direction only, the stroke may start anywhere on the canvas
+        const { theta } = cartesianToPolar(segment.end.x - segment.start.x, segment.end.y - segment.start.y);
+        const index = getIndexFromAngle(theta, getSliceSpans(currentItems, arcSpan), arcStart);
+        if (index === -1) break;
+
+        const item = currentItems[index];
+        indices.push(index);
+        items.push(item);
+        currentItems = getChildren(item);
+    }
+
+    return { indices, items };
+}
@@ -0,0 +1,849 @@
+import { BagelConfig, Point, PolarPoint, RadialItem } from '../types';
+import { BagelStateManager, InputSource, MenuStatus } from './state';
+import { getArcSpan, getCenterRadius, getRecentIndex, getRingBounds, getSliceSpans, hitTestPolar, isWithinSlice, polarToCartesian, TWO_PI } from './geometry';
+import { RecentItem } from './history';
+import { recognizeMarkingPath } from './marking';
+import { findEnabledIndex, getVisibleItems, isItemCheckable, isItemDisabled } from './items';
+
+/**
+ * Pointer position relative to the menu center, with the time it was sampled (ms).
+ */
+export interface PointerSample extends PolarPoint {
+    time: number;
+}
+
+// Keyboard-style commands, independent of the keys (or buttons) that produce them
+export type NavigationIntent = 'next' | 'previous' | 'out' | 'in' | 'confirm' | 'cancel';
+
+/**
+ * Distance between two polar points (law of cosines).
+ */
+function distance(a: PolarPoint, b: PolarPoint): number {
+    return Math.sqrt(Math.max(0, a.r * a.r + b.r * b.r - 2 * a.r * b.r * Math.cos(a.theta - b.theta)));
+}
+
+/**
+ * Pointer velocity (px/ms) over the given samples, oldest first; zero with fewer than two.
+ */
+export function estimateVelocity(samples: PointerSample[]): Point {
+    if (samples.length < 2) return { x: 0, y: 0 };
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const dt = last.time - first.time;
+    if (dt <= 0) return { x: 0, y: 0 };
+
+    const from = polarToCartesian(first);
+    const to = polarToCartesian(last);
+    return { x: (to.x - from.x) / dt, y: (to.y - from.y) / dt };
+}
+
+/**
+ * Headless navigation: turns abstract inputs (polar pointer samples, intents, timestamps)
+ * into BagelStateManager transitions. No DOM, timers or rendering; adapters feed it input
+ * and call update() at getNextDeadline() so holds and marking pauses can elapse.
+ */
+export class NavigationEngine {
+    private stateManager: BagelStateManager;
+    private config: BagelConfig;
+    private rootItems: RadialItem[];
+
+    // Press that turns into a glide once it is held long enough (or moves)
+    private holdStart: PointerSample | null = null;
+    private readonly DEFAULT_HOLD_THRESHOLD = 200; // ms
+    private readonly DEFAULT_MOVEMENT_BUFFER = 10; // px
+    private readonly DEFAULT_HYSTERESIS = 6; // px past a slice or ring edge
+
+    // Recent samples of the current press, for flick velocity
+    private isPressed: boolean = false;
+    private pressConsumed: boolean = false; // A flick already confirmed, the release does nothing
+    private recentSamples: PointerSample[] = [];
+    private readonly VELOCITY_WINDOW = 80; // ms
+    private readonly DEFAULT_FLICK_VELOCITY = 1.5; // px/ms
+
+    // Marking menu: strokes are recorded while the rings stay hidden
+    private markingAnchor: PointerSample | null = null;
+    private strokePoints: Point[] = [];
+    private strokeStarted: boolean = false;
+    private readonly DEFAULT_MARKING_DELAY = 300; // ms
+
+    // Async children: re-resolve the glide (or finish a keyboard drill-in) when they arrive
+    private lastSample: PointerSample | null = null;
+    private pendingDrill: { path: number[]; source: InputSource } | null = null;
+
+    // Whether the renderer draws the recents ring; an undrawn ring is never hit
+    private recentsShown: boolean = false;
+    private unsubscribeChildren: () => void;
+
+    constructor(stateManager: BagelStateManager, config: BagelConfig, items: RadialItem[]) {
+        this.stateManager = stateManager;
+        this.config = config;
+        this.rootItems = items;
+        this.stateManager.setItems(items); // Lets lifecycle events carry resolved items
+        this.stateManager.history.configure(config.history);
+        this.unsubscribeChildren = this.stateManager.children.subscribe(this.onChildrenChange);
+    }
+
+    public updateConfig(newConfig: BagelConfig) {
+        this.config = newConfig;
+        this.stateManager.history.configure(newConfig.history);
+    }
+
+    public updateItems(newItems: RadialItem[]) {
+        this.rootItems = newItems;
+        this.stateManager.setItems(newItems);
+    }
+
+    public destroy() {
+        this.unsubscribeChildren();
+        this.clearGesture();
+    }
+
+    /**
+     * Time (same clock as the samples) at which update() has work to do, or null.
+     */
+    public getNextDeadline(): number | null {
+        if (this.holdStart) return this.holdStart.time + this.getHoldThreshold();
+        if (this.markingAnchor) return this.markingAnchor.time + this.getMarkingDelay();
+        return null;
+    }
+
+    /**
+     * Advances time-based gestures: a held press becomes a glide, a paused stroke reveals the rings.
+     */
+    public update(time: number) {
+        if (this.holdStart && time - this.holdStart.time >= this.getHoldThreshold()) {
+            this.holdStart = null;
+            this.enterGlide();
+        }
+
+        if (this.markingAnchor && time - this.markingAnchor.time >= this.getMarkingDelay()) {
+            this.markingAnchor = null;
+            this.revealRings();
+        }
+    }
+
+    /**
+     * Press on the menu. With glideNow the press glides right away instead of waiting for the hold
+     * (used when a press elsewhere already opened the menu, e.g. attach mode).
+     */
+    public pointerDown(sample: PointerSample, glideNow: boolean = false) {
+        this.lastSample = sample;
+        this.isPressed = true;
+        this.pressConsumed = false;
+        this.recentSamples = [sample];
+        const status = this.stateManager.getState().status;
+
+        // Marking Menu: record the stroke first, the rings only appear if the user pauses
+        if (this.config.markingMenu?.enabled && status === MenuStatus.CLOSED) {
+            this.startMarking(sample);
+            return;
+        }
+
+        if (status === MenuStatus.CLOSED) {
+            this.stateManager.setStatus(MenuStatus.OPEN, 'pointer');
+        }
+
+        if (glideNow) {
+            this.enterGlide();
+        } else {
+            this.holdStart = sample;
+        }
+    }
+
+    public pointerMove(sample: PointerSample) {
+        this.update(sample.time);
+        this.lastSample = sample;
+        if (this.isPressed) this.recordSample(sample);
+
+        const state = this.stateManager.getState();
+
+        if (state.status === MenuStatus.MARKING) {
+            this.recordStrokePoint(sample);
+            return;
+        }
+        if (this.pressConsumed) return;
+
+        // Dragging before the hold threshold is gliding too, start right away to be responsive
+        if (this.holdStart && distance(sample, this.holdStart) > this.getMovementBuffer()) {
+            this.holdStart = null;
+            if (state.status !== MenuStatus.GLIDING) {
+                this.stateManager.setStatus(MenuStatus.GLIDING, 'pointer');
+            }
+        }
+
+        if (state.status === MenuStatus.GLIDING || state.status === MenuStatus.OPEN) {
+            this.handleHitTest(sample);
+        }
+
+        if (this.stateManager.getState().status === MenuStatus.GLIDING && this.config.gesture?.flickToSelect) {
+            this.detectFlick(sample);
+        }
+    }
+
+    /**
+     * Release (or cancel) of the press.
+     */
+    public pointerUp(sample: PointerSample) {
+        this.update(sample.time);
+        const isTap = this.holdStart !== null; // Released before it became a glide
+        this.holdStart = null;
+        this.isPressed = false;
+        this.recentSamples = [];
+        const wasConsumed = this.pressConsumed;
+        this.pressConsumed = false;
+
+        const state = this.stateManager.getState();
+
+        if (state.status === MenuStatus.MARKING) {
+            this.finishMarking(sample);
+            return;
+        }
+
+        if (state.status !== MenuStatus.GLIDING && state.status !== MenuStatus.OPEN) return;
+
+        if (wasConsumed) {
+            if (state.status === MenuStatus.GLIDING) this.stateManager.setStatus(MenuStatus.OPEN, 'pointer');
+            return;
+        }
+
+        // Overshoot: past the outermost ring the highlighted leaf is what the user meant
+        if (this.config.gesture?.confirmBeyondRing && this.isBeyondRings(sample, state.activePath)) {
+            const highlighted = this.stateManager.resolvePath(state.activePath)[state.activePath.length - 1];
+            if (highlighted && !this.isBranch(highlighted)) {
+                this.confirmSelection(state.activePath, 'pointer');
+                if (this.stateManager.getState().status !== MenuStatus.CLOSED) {
+                    this.stateManager.setStatus(MenuStatus.OPEN, 'pointer');
+                }
+                return;
+            }
+        }
+
+        // One final hit test to be sure where we released
+        const hit = this.resolveHit(sample);
+
+        const hitRecent = this.hitRecents(sample);
+
+        if (hit.item || this.isHeldByHighlight(sample)) {
+            // Decided by the highlighted item, which hysteresis may keep while the pointer is just past
+            // its edge. Leaves are selected; a branch is already drilled into by the glide, so it stays open
+            const highlighted = this.stateManager.resolvePath(state.activePath)[state.activePath.length - 1];
+            if (highlighted && !this.isBranch(highlighted)) {
+                this.confirmSelection(state.activePath, 'pointer');
+            }
+        } else if (hitRecent) {
+            this.confirmSelection(hitRecent.recent.indices, 'pointer');
+        } else if (hit.depth === -1 && this.isOnHub(sample) && state.activePath.length > 0) {
+            // Hub tap with backOnTap: close the outermost open ring instead of the menu. A highlighted
+            // leaf opens no ring of its own, so step past it out of the branch holding it
+            const pathItems = this.stateManager.resolvePath(state.activePath);
+            const highlighted = pathItems[pathItems.length - 1];
+            const trim = highlighted && !this.isBranch(highlighted) ? 2 : 1;
+            this.stateManager.setActivePath(state.activePath.slice(0, -trim), 'pointer');
+        } else if (hit.depth === -1) {
+            // Released in the dead zone or outside the arc; a tap on an idle hub can repeat the last selection
+            const isRepeatTap = isTap && state.activePath.length === 0 && !!this.config.history?.repeatOnTap &&
+                sample.r < getCenterRadius(this.config);
+            if (!isRepeatTap || !this.repeat(0, 'pointer')) {
+                this.stateManager.setStatus(MenuStatus.CLOSED, 'pointer');
+                this.stateManager.reset('pointer');
+            }
+        }
+
+        // Exit GLIDING if we didn't close
+        if (this.stateManager.getState().status !== MenuStatus.CLOSED) {
+            this.stateManager.setStatus(MenuStatus.OPEN, 'pointer');
+        }
+    }
+
+    /**
+     * Analog aiming (a gamepad stick): theta picks the slice and reach (0-1) the radius across
+     * the given number of rings, as if a pointer glided there.
+     * @param rings - Rings the reach spans, default the rings open now (see getOpenRings)
+     */
+    public aim(theta: number, reach: number, rings: number = this.getOpenRings(), source: InputSource = 'gamepad') {
+        const state = this.stateManager.getState();
+        if (state.status !== MenuStatus.OPEN && state.status !== MenuStatus.GLIDING) return;
+
+        const { innerRadius } = this.config;
+        const outer = getRingBounds(Math.max(1, rings) - 1, this.config).rOuter;
+        const r = innerRadius + Math.min(1, Math.max(0, reach)) * (outer - innerRadius) * 0.999;
+        this.handleHitTest({ r, theta: ((theta % TWO_PI) + TWO_PI) % TWO_PI }, source);
+    }
+
+    /**
+     * Rings shown for the current path: the root ring plus one per opened branch.
+     */
+    public getOpenRings(): number {
+        const { activePath } = this.stateManager.getState();
+        return 1 + this.stateManager.resolvePath(activePath).filter(item => this.isBranch(item)).length;
+    }
+
+    /**
+     * Rotates within the focused ring, steps in and out of branches, confirms or cancels.
+     */
+    public handleIntent(intent: NavigationIntent, source: InputSource = 'keyboard') {
+        const state = this.stateManager.getState();
+        if (state.status === MenuStatus.CLOSED) return;
+
+        if (intent === 'cancel') {
+            this.close(source);
+            return;
+        }
+
+        const { path: currentPath, depth: currentDepth, items: itemsAtDepth } = this.getFocusedRing();
+
+        let currentIndex = currentPath[currentDepth] !== undefined ? currentPath[currentDepth] : -1;
+
+        // Rotation skips disabled items
+        if (intent === 'next' || intent === 'previous') {
+            const step = intent === 'next' ? 1 : -1;
+            currentIndex = findEnabledIndex(itemsAtDepth, currentIndex + step, step);
+            if (currentIndex === -1) return;
+            currentPath[currentDepth] = currentIndex;
+            this.stateManager.setActivePath(currentPath, source);
+        } else if (intent === 'out') {
+            if (currentPath.length > 0) {
+                currentPath.pop();
+                this.stateManager.setActivePath(currentPath, source);
+            }
+        } else if (intent === 'in') {
+            // Go in a level if selected item has children
+            if (currentIndex !== -1) {
+                this.drillInto(currentPath, source);
+            }
+        } else if (intent === 'confirm') {
+            if (currentIndex !== -1 && !this.isBranch(itemsAtDepth[currentIndex])) {
+                this.confirmSelection(currentPath, source);
+            }
+        }
+    }
+
+    /**
+     * Selects the leaf, or drills into the branch, at a slice of the focused ring (number keys,
+     * accelerators). Returns false when there is no enabled item there.
+     */
+    public activate(index: number, source: InputSource = 'keyboard'): boolean {
+        if (this.stateManager.getState().status === MenuStatus.CLOSED) return false;
+
+        const { path, depth, items } = this.getFocusedRing();
+        const item = items[index];
+        if (!item || isItemDisabled(item)) return false;
+
+        path[depth] = index;
+        path.length = depth + 1;
+        if (this.isBranch(item)) {
+            this.stateManager.setActivePath(path, source);
+            this.drillInto(path, source);
+        } else {
+            this.confirmSelection(path, source);
+        }
+        return true;
+    }
+
+    /**
+     * Activates the first item of the focused ring whose shortcut the predicate accepts.
+     */
+    public activateShortcut(matches: (shortcut: string) => boolean, source: InputSource = 'keyboard'): boolean {
+        if (this.stateManager.getState().status === MenuStatus.CLOSED) return false;
+
+        const { items } = this.getFocusedRing();
+        const index = items.findIndex(item => !!item.shortcut && !isItemDisabled(item) && matches(item.shortcut));
+        return index !== -1 && this.activate(index, source);
+    }
+
+    /**
+     * Highlights the next item of the focused ring whose label starts with the typed prefix.
+     * Typing the same letter again cycles through the items starting with it.
+     */
+    public typeAhead(prefix: string, source: InputSource = 'keyboard'): boolean {
+        if (this.stateManager.getState().status === MenuStatus.CLOSED || !prefix) return false;
+
+        const { path, depth, items } = this.getFocusedRing();
+        const current = path[depth] ?? -1;
+        const needle = prefix.toLowerCase();
+        const isRepeat = needle.length > 1 && [...needle].every(char => char === needle[0]);
+        const search = isRepeat ? needle[0] : needle;
+
+        // A new letter moves on from the highlighted item, a longer prefix may still match it
+        const start = search.length === 1 ? current + 1 : Math.max(current, 0);
+        for (let i = 0; i < items.length; i++) {
+            const index = (start + i) % items.length;
+            const item = items[index];
+            if (isItemDisabled(item) || !item.label.toLowerCase().startsWith(search)) continue;
+
+            path[depth] = index;
+            path.length = depth + 1;
+            this.stateManager.setActivePath(path, source);
+            return true;
+        }
+        return false;
+    }
+
+    public open(source: InputSource = 'programmatic') {
+        if (this.stateManager.getState().status === MenuStatus.CLOSED) {
+            this.stateManager.setStatus(MenuStatus.OPEN, source);
+        }
+    }
+
+    public close(source: InputSource = 'programmatic') {
+        this.clearGesture();
+        // One notification and one close event, reset already closes
+        if (this.stateManager.getState().status !== MenuStatus.CLOSED) {
+            this.stateManager.reset(source);
+        }
+    }
+
+    /**
+     * Opens the menu (if needed) and highlights the given path.
+     */
+    public highlight(pathIndices: number[], source: InputSource = 'programmatic') {
+        this.open(source);
+        this.stateManager.setActivePath(pathIndices, source);
+    }
+
+    /**
+     * Opens the menu (if needed) and focuses the ring of children below the given branch.
+     */
+    public navigateTo(pathIndices: number[], source: InputSource = 'programmatic') {
+        this.highlight(pathIndices, source);
+        this.drillInto(pathIndices, source);
+    }
+
+    /**
+     * Selects the item at the given path through the regular selection flow.
+     * False when nothing was selected: the path is unresolved, a branch or disabled.
+     */
+    public select(pathIndices: number[], source: InputSource = 'programmatic'): boolean {
+        return this.confirmSelection(pathIndices, source);
+    }
+
+    /**
+     * Tells the engine whether the recents ring (history.recents) is drawn. Off by default.
+     */
+    public setRecentsShown(shown: boolean) {
+        this.recentsShown = shown;
+        if (!shown) this.stateManager.history.setHighlighted(-1);
+    }
+
+    /**
+     * Selects a history entry again (0 is the latest) through the regular selection flow.
+     * False when there is no such entry that still resolves to an enabled leaf.
+     */
+    public repeat(index: number = 0, source: InputSource = 'programmatic'): boolean {
+        const recent = this.stateManager.getRecents(index + 1)[index];
+        if (!recent) return false;
+        return this.confirmSelection(recent.indices, source);
+    }
+
+    private clearGesture() {
+        this.holdStart = null;
+        this.isPressed = false;
+        this.pressConsumed = false;
+        this.recentSamples = [];
+        this.markingAnchor = null;
+        this.strokePoints = [];
+    }
+
+    private enterGlide() {
+        this.stateManager.setStatus(MenuStatus.GLIDING, 'pointer');
+    }
+
+    /**
+     * Moves focus to the first enabled child of the item at the end of the path.
+     * Lazy children that are not there yet are (re)loaded and drilled into on arrival.
+     */
+    private drillInto(path: number[], source: InputSource) {
+        const item = this.stateManager.resolvePath(path)[path.length - 1];
+        if (!item || path.length === 0) return;
+
+        const firstEnabled = findEnabledIndex(this.getChildren(item), 0, 1);
+        if (firstEnabled !== -1) {
+            this.stateManager.setActivePath([...path, firstEnabled], source);
+        } else if (item.loadChildren) {
+            // Children are still loading (or failed): retry and drill in once they arrive
+            this.pendingDrill = { path: [...path], source };
+            this.stateManager.children.load(item);
+        }
+    }
+
+    /**
+     * The ring keyboard-style input acts on: the one holding the highlighted item (the root ring
+     * while nothing is highlighted). Returns a copy of the active path to modify.
+     */
+    private getFocusedRing(): { path: number[]; depth: number; items: RadialItem[] } {
+        const path = [...this.stateManager.getState().activePath];
+        const depth = path.length > 0 ? path.length - 1 : 0;
+
+        let items = this.getRootItems();
+        for (let i = 0; i < depth; i++) {
+            const parent = items[path[i]];
+            items = parent ? this.getChildren(parent) : [];
+        }
+        return { path, depth, items };
+    }
+
+    /**
+     * Root ring without hidden items; slice indices refer to this list.
+     */
+    private getRootItems(): RadialItem[] {
+        return getVisibleItems(this.rootItems);
+    }
+
+    private getChildren(item: RadialItem): RadialItem[] {
+        return this.stateManager.children.getChildren(item);
+    }
+
+    /**
+     * Branches never confirm; lazy items are branches even before their children arrive.
+     */
+    private isBranch(item: RadialItem): boolean {
+        return this.stateManager.children.hasChildren(item);
+    }
+
+    private onChildrenChange = () => {
+        const state = this.stateManager.getState();
+        if (state.status === MenuStatus.CLOSED) {
+            this.pendingDrill = null;
+            return;
+        }
+
+        // Keyboard / programmatic: finish the drill-in that was waiting for these children
+        if (this.pendingDrill) {
+            const { path: pendingPath, source } = this.pendingDrill;
+            const isStillActive = pendingPath.length === state.activePath.length &&
+                pendingPath.every((v, i) => v === state.activePath[i]);
+            const pathItems = this.stateManager.resolvePath(pendingPath);
+            const parent = pathItems[pathItems.length - 1];
+
+            if (!isStillActive || !parent) {
+                this.pendingDrill = null;
+            } else if (this.getChildren(parent).length > 0) {
+                this.pendingDrill = null;
+                this.drillInto(pendingPath, source);
+                return;
+            }
+        }
+
+        // Glide: the pointer may already sit where the new ring appears
+        if (state.status === MenuStatus.GLIDING && this.lastSample) {
+            this.handleHitTest(this.lastSample);
+        }
+    };
+
+    /**
+     * Whether the sample is on a hub that steps back on tap (center.backOnTap)
+     */
+    private isOnHub(sample: PolarPoint): boolean {
+        return !!this.config.center?.backOnTap && sample.r < getCenterRadius(this.config);
+    }
+
+    private getHoldThreshold(): number {
+        return this.config.gesture?.holdThreshold ?? this.DEFAULT_HOLD_THRESHOLD;
+    }
+
+    private getMovementBuffer(): number {
+        return this.config.gesture?.movementBuffer ?? this.DEFAULT_MOVEMENT_BUFFER;
+    }
+
+    /**
+     * Hysteresis: the highlighted slice stays sticky until the sample is clearly past one of its edges,
+     * so gliding along a boundary does not flip the path (and fire feedback) every frame
+     */
+    private isHeldByHighlight(sample: PolarPoint): boolean {
+        const { path, depth, items } = this.getFocusedRing();
+        if (path.length === 0) return false;
+
+        const span = getSliceSpans(items, getArcSpan(this.config))[path[depth]];
+        if (!span) return false;
+
+        const { angular = this.DEFAULT_HYSTERESIS, radial = this.DEFAULT_HYSTERESIS } = this.config.gesture?.hysteresis ?? {};
+        return isWithinSlice(sample, depth, span, this.config, Math.max(0, angular), Math.max(0, radial));
+    }
+
+    /**
+     * Entry of the recents ring under the sample, when the ring is shown
+     */
+    private hitRecents(sample: PolarPoint): { index: number; recent: RecentItem } | null {
+        const count = this.config.history?.recents ?? 0;
+        if (count <= 0 || !this.recentsShown) return null;
+        const recents = this.stateManager.getRecents(count);
+        const index = getRecentIndex(sample, recents.length, this.config);
+        return index === -1 ? null : { index, recent: recents[index] };
+    }
+
+    private recordSample(sample: PointerSample) {
+        this.recentSamples.push(sample);
+        while (this.recentSamples.length > 2 && sample.time - this.recentSamples[0].time > this.VELOCITY_WINDOW) {
+            this.recentSamples.shift();
+        }
+    }
+
+    /**
+     * Outer edge of the rings currently shown: the root ring plus one ring per opened branch
+     */
+    private getOuterRadius(activePath: number[]): number {
+        const branches = this.stateManager.resolvePath(activePath).filter(item => this.isBranch(item)).length;
+        return getRingBounds(branches, this.config).rOuter;
+    }
+
+    private isBeyondRings(sample: PolarPoint, activePath: number[]): boolean {
+        return sample.r > this.getOuterRadius(activePath);
+    }
+
+    /**
+     * A fast outward flick past the outermost ring confirms the leaf in the direction of travel
+     */
+    private detectFlick(sample: PointerSample) {
+        const state = this.stateManager.getState();
+        if (!this.isBeyondRings(sample, state.activePath)) return;
+
+        const velocity = estimateVelocity(this.recentSamples);
+        const outward = velocity.x * Math.cos(sample.theta) + velocity.y * Math.sin(sample.theta);
+        if (outward < (this.config.gesture?.flickVelocity ?? this.DEFAULT_FLICK_VELOCITY)) return;
+
+        // Aim along the motion rather than the position, a flick is rarely perfectly radial
+        const direction = Math.atan2(velocity.y, velocity.x);
+        const aimed: PolarPoint = { r: sample.r, theta: direction < 0 ? direction + Math.PI * 2 : direction };
+        const path = this.buildPathFromRoot(aimed, hitTestPolar(aimed, this.config).depth);
+        const target = this.stateManager.resolvePath(path)[path.length - 1];
+        if (!target || this.isBranch(target) || isItemDisabled(target)) return;
+
+        this.pressConsumed = true;
+        this.stateManager.setActivePath(path, 'pointer');
+        this.confirmSelection(path, 'pointer');
+    }
+
+    private getMarkingDelay(): number {
+        return this.config.markingMenu?.delay ?? this.DEFAULT_MARKING_DELAY;
+    }
+
+    private startMarking(sample: PointerSample) {
+        this.strokePoints = [polarToCartesian(sample)];
+        this.strokeStarted = false;
+        this.markingAnchor = sample;
+        this.stateManager.setStatus(MenuStatus.MARKING, 'pointer');
+    }
+
+    private recordStrokePoint(sample: PointerSample) {
+        this.strokePoints.push(polarToCartesian(sample));
+
+        if (this.markingAnchor && distance(sample, this.markingAnchor) > this.getMovementBuffer()) {
+            // Still stroking: the pause is measured from here
+            this.strokeStarted = true;
+            this.markingAnchor = sample;
+        }
+    }
+
+    /**
+     * The user paused: fall back to the visual glide from the current position.
+     */
+    private revealRings() {
+        this.strokePoints = [];
+        this.markingAnchor = null;
+
+        this.enterGlide();
+        if (this.lastSample) this.handleHitTest(this.lastSample);
+    }
+
+    private finishMarking(sample: PointerSample) {
+        this.markingAnchor = null;
+        this.strokePoints.push(polarToCartesian(sample));
+
+        if (!this.strokeStarted) {
+            // A tap, not a stroke: behave like a regular press on the menu
+            this.strokePoints = [];
+            this.stateManager.setStatus(MenuStatus.OPEN, 'pointer');
+            return;
+        }
+
+        const { indices, items } = recognizeMarkingPath(
+            this.strokePoints,
+            this.getRootItems(),
+            this.config,
+            this.config.markingMenu,
+            (item) => this.getChildren(item)
+        );
+        this.strokePoints = [];
+
+        const lastItem = items[items.length - 1];
+        if (lastItem && !this.isBranch(lastItem) && !isItemDisabled(lastItem)) {
+            this.confirmSelection(indices, 'pointer');
+        } else {
+            // Stroke ended on a branch, a disabled item or matched nothing
+            this.stateManager.setStatus(MenuStatus.CLOSED, 'pointer');
+            this.stateManager.reset('pointer');
+        }
+    }
+
+    /**
+     * Resolves the item under the sample, rebuilding the path from the root ring
+     * instead of trusting state.activePath.
+     */
+    private resolveHit(sample: PolarPoint): { depth: number; index: number; item: RadialItem | null } {
+        let targetDepth = hitTestPolar(sample, this.config).depth; // First get depth blindly
+
+        // Safety Cap to prevent potential infinite loops
+        if (targetDepth > 100) targetDepth = 100;
+
+        if (targetDepth === -1) return { depth: -1, index: -1, item: null };
+
+        let currentItems = this.getRootItems();
+        let resolvedIndex = -1;
+        let resolvedItem: RadialItem | null = null;
+        let actualDepth = -1;
+
+        // Walk from 0 to targetDepth
+        for (let d = 0; d <= targetDepth; d++) {
+            // Ran out of items before reaching the target depth
+            if (!currentItems || currentItems.length === 0) break;
+
+            // Pass the items at this level so geometry knows how to slice the pie (weights included)
+            const { index } = hitTestPolar(sample, this.config, currentItems);
+
+            // A gap at any ring makes the whole hit invalid
+            if (index === -1) {
+                return { depth: d, index: -1, item: null };
+            }
+
+            const item = currentItems[index];
+            resolvedIndex = index;
+            resolvedItem = item;
+            actualDepth = d;
+
+            if (d < targetDepth) {
+                const children = this.getChildren(item);
+                if (children.length > 0) {
+                    currentItems = children;
+                } else {
+                    // Hit a leaf before the target depth: the user is hovering it from further out
+                    break;
+                }
+            }
+        }
+
+        return { depth: actualDepth, index: resolvedIndex, item: resolvedItem };
+    }
+
+    /**
+     * Builds the path under the sample from the root, one ring per depth up to targetDepth.
+     */
+    private buildPathFromRoot(sample: PolarPoint, targetDepth: number): number[] {
+        const path: number[] = [];
+        let currentItems = this.getRootItems();
+
+        for (let d = 0; d <= targetDepth; d++) {
+            if (!currentItems || currentItems.length === 0) break;
+
+            const { index } = hitTestPolar(sample, this.config, currentItems);
+            if (index === -1) break; // In a gap
+
+            path.push(index);
+            if (d < targetDepth) {
+                const item = currentItems[index];
+                currentItems = item ? this.getChildren(item) : [];
+            }
+        }
+
+        return path;
+    }
+
+    private handleHitTest(sample: PolarPoint, source: InputSource = 'pointer') {
+        const state = this.stateManager.getState();
+        const currentDepth = state.activePath.length > 0 ? state.activePath.length - 1 : 0;
+
+        if (this.isHeldByHighlight(sample)) return;
+
+        // The recents ring sits between the hub and the root ring, its highlight is kept in the history
+        const hitRecent = this.hitRecents(sample);
+        this.stateManager.history.setHighlighted(hitRecent ? hitRecent.index : -1);
+        if (hitRecent) {
+            if (state.activePath.length > 0) this.stateManager.setActivePath([], source);
+            return;
+        }
+
+        // First, determine what depth we're actually at based on radius
+        const targetDepth = hitTestPolar(sample, this.config).depth;
+
+        if (targetDepth === -1) {
+            // Over a hub that steps back on tap, keep the path so the tap knows where to step back from
+            if (this.isOnHub(sample)) return;
+
+            // In dead zone - clear selection
+            if (state.activePath.length > 0) {
+                this.stateManager.setActivePath([], source);
+            }
+            return;
+        }
+
+        // Overshoot tolerance: the highlight holds past the outermost ring
+        if (this.config.gesture?.confirmBeyondRing && state.activePath.length > 0 && this.isBeyondRings(sample, state.activePath)) {
+            return;
+        }
+
+        let finalPath: number[];
+
+        // CRITICAL: When in a nested ring (depth > 0), respect the current parent
+        // Only calculate index for the current depth using current parent's children
+        if (currentDepth > 0 && targetDepth === currentDepth) {
+            finalPath = [...state.activePath];
+
+            // Get the items at current depth (children of current parent)
+            let currentItems = this.getRootItems();
+            for (let i = 0; i < currentDepth; i++) {
+                const parent = currentItems[state.activePath[i]];
+                currentItems = parent ? this.getChildren(parent) : [];
+            }
+
+            if (currentItems.length === 0) return; // No items at this depth
+
+            const { index } = hitTestPolar(sample, this.config, currentItems);
+            if (index === -1) return; // In a gap - don't update
+            finalPath[currentDepth] = index;
+        } else {
+            // At root level, moving deeper or back to a shallower depth - rebuild from root
+            finalPath = this.buildPathFromRoot(sample, targetDepth);
+        }
+
+        // Only update if path actually changed
+        const pathChanged = finalPath.length !== state.activePath.length ||
+            finalPath.some((v, i) => v !== state.activePath[i]);
+
+        if (pathChanged) {
+            this.stateManager.setActivePath(finalPath, source);
+        }
+    }
+
+    private confirmSelection(pathIndices: number[], source: InputSource): boolean {
+        // Reconstruct items from indices
+        const pathItems = this.stateManager.resolvePath(pathIndices);
+
+        // Branches are drilled into, not selected; disabled items never confirm, the menu simply stays open
+        const target = pathItems[pathItems.length - 1];
+        if (!target || pathItems.length !== pathIndices.length || this.isBranch(target)) return false;
+        if (isItemDisabled(target)) {
+            this.stateManager.reject(pathIndices, source);
+            return false;
+        }
+
+        if (isItemCheckable(target)) {
+            this.stateManager.commitChecked(pathIndices);
+        }
+
+        // Selecting while closed (repeat key, API) commits without opening the menu
+        const wasOpen = this.stateManager.getState().status !== MenuStatus.CLOSED;
+        this.stateManager.setSelection(pathIndices, source);
+        if (target.keepOpen && wasOpen) {
+            // Stay open on the same path so more items can be picked
+            this.stateManager.setActivePath(pathIndices, source);
+            this.stateManager.setStatus(MenuStatus.OPEN, source);
+        } else {
+            this.stateManager.setStatus(MenuStatus.CLOSED, source);
+            this.stateManager.reset(source); // Reset internal state after closing
+        }
+
+        // Trigger callback
+        if (target.action) target.action();
+        if (target.onSelect) target.onSelect(pathItems);
+        return true;
+    }
+}
@@ -0,0 +1,92 @@
+import { RadialItem } from '../types';
+
+/**
+ * The parts of a KeyboardEvent a shortcut is matched against
+ */
+export interface KeyStroke {
+    key: string;
+    ctrlKey: boolean;
+    altKey: boolean;
+    shiftKey: boolean;
+    metaKey: boolean;
+}
+
+interface ParsedShortcut {
+    key: string; // Lower case
+    ctrl: boolean;
+    alt: boolean;
+    shift: boolean;
+    meta: boolean;
+}
+
+const MODIFIERS: Record<string, keyof Omit<ParsedShortcut, 'key'>> = {
+    ctrl: 'ctrl',
+    control: 'ctrl',
+    alt: 'alt',
+    option: 'alt',
+    shift: 'shift',
+    meta: 'meta',
+    cmd: 'meta',
+    command: 'meta',
+};
+
+const parsedShortcuts: Map<string, ParsedShortcut | null> = new Map();
+
+/**
+ * Parses "b", "Shift+E" or "Ctrl+Alt+Delete" (case-insensitive, "+" separated, key last).
+ * Null when there is no key.
+ */
+export function parseShortcut(shortcut: string): ParsedShortcut | null {
+    if (parsedShortcuts.has(shortcut)) return parsedShortcuts.get(shortcut)!;
+
+    // A trailing "+" is the plus key itself ("Shift++")
+    const parts = shortcut.trim().replace(/\+\+$/, '+plus').split('+').map(part => part.trim().toLowerCase());
+    const parsed: ParsedShortcut = { key: '', ctrl: false, alt: false, shift: false, meta: false };
+    parts.forEach((part, i) => {
+        const modifier = MODIFIERS[part];
+        if (modifier && i < parts.length - 1) parsed[modifier] = true;
+        else parsed.key = part === 'plus' ? '+' : part === 'space' ? ' ' : part;
+    });
+
+    const result = parsed.key ? parsed : null;
+    parsedShortcuts.set(shortcut, result);
+    return result;
+}
+
+export function matchesShortcut(shortcut: string, stroke: KeyStroke): boolean {
+    const parsed = parseShortcut(shortcut);
+    if (!parsed) return false;
+
+    // Shift is part of the key for symbols ("?" is Shift+/), so it only has to match when asked for
+    // or when the key is a letter
+    const isLetter = /^[a-z]$/.test(parsed.key);
+    const shiftMatches = parsed.shift ? stroke.shiftKey : !(isLetter && stroke.shiftKey);
+
+    return stroke.key.toLowerCase() === parsed.key &&
+        stroke.ctrlKey === parsed.ctrl &&
+        stroke.altKey === parsed.alt &&
+        stroke.metaKey === parsed.meta &&
+        shiftMatches;
+}
+
+/**
+ * Compact form for drawing on a slice: "Shift+E" becomes "⇧E"
+ */
+export function formatShortcut(shortcut: string): string {
+    const parsed = parseShortcut(shortcut);
+    if (!parsed) return shortcut;
+
+    const symbols = [parsed.ctrl && '⌃', parsed.alt && '⌥', parsed.shift && '⇧', parsed.meta && '⌘'].filter(Boolean).join('');
+    const key = parsed.key === ' ' ? '␣' : parsed.key.length === 1 ? parsed.key.toUpperCase() : parsed.key;
+    return symbols + key;
+}
+
+/**
+ * Slice hint for an item: its shortcut, or the number key of its slice when the ring has focus
+ * @param numberKey - Index of the slice in the focused ring, or -1
+ */
+export function getShortcutHint(item: RadialItem, numberKey: number): string | null {
+    if (item.shortcut) return formatShortcut(item.shortcut);
+    if (numberKey >= 0 && numberKey < 9) return String(numberKey + 1);
+    return null;
+}
@@ -1,25 +1,76 @@
+import { HistoryEntry, RadialItem } from '../types';
+import { ChildrenLoader } from './children';
+import { BadgeStore } from './badges';
+import { RecentItem, SelectionHistory } from './history';
+import { getVisibleItems, isItemCheckable, isItemDisabled } from './items';
+
 export enum MenuStatus {
     CLOSED = 'CLOSED',
     OPEN = 'OPEN',           // Open and stationary (waiting for click/interaction)
     GLIDING = 'GLIDING',     // User is dragging/marking
+    MARKING = 'MARKING',     // Expert stroke in progress, rings are not drawn
     ANIMATING_OUT = 'ANIMATING_OUT' // Optional, for visual polish
 }
 
 export interface MenuState {
     status: MenuStatus;
     activePath: number[]; // Indices of the currently highlighted path, e.g., [1, 3] -> Ring 0 Item 1 -> Ring 1 Item 3
-    // cursorPosition removed to avoid high-frequency updates triggering react re-renders. 
+    // cursorPosition removed to avoid high-frequency updates triggering react re-renders.
     // It should be handled by the input controller/renderer directly.
     selection: number[] | null; // Final selection when confirmed
 }
 
 export type StateListener = (state: MenuState) => void;
 
+// Where a transition came from, so apps can tell a glide from a hotkey or an API call
+export type InputSource = 'pointer' | 'keyboard' | 'gamepad' | 'programmatic';
+
+// 'reject': a confirm landed on a disabled item, the menu stays as it was
+export type BagelEventType = 'open' | 'close' | 'highlight' | 'select' | 'cancel' | 'back' | 'reject';
+
+export interface BagelEvent {
+    type: BagelEventType;
+    path: RadialItem[]; // Resolved items from the root ring outwards
+    indices: number[]; // Same path as slice indices
+    depth: number; // Depth of the last item in the path, -1 if the path is empty
+    source: InputSource;
+    timestamp: number;
+}
+
+export type BagelEventListener = (event: BagelEvent) => void;
+
 export class BagelStateManager {
     private state: MenuState;
     private listeners: Set<StateListener> = new Set();
+    private eventListeners: Map<BagelEventType, Set<BagelEventListener>> = new Map();
+    private items: RadialItem[];
+
+    // Async children (RadialItem.loadChildren), shared by input and renderer
+    public readonly children: ChildrenLoader = new ChildrenLoader();
 
-    constructor() {
+    // Live badges (RadialItem.badge overrides), redrawn without touching the item tree
+    public readonly badges: BadgeStore = new BadgeStore();
+
+    // Confirmed selections by id path, for repeat-last and the recents ring
+    public readonly history: SelectionHistory = new SelectionHistory();
+
+    // History entries resolved against the tree, reused until the entries, items or children change
+    private recentsCache: { entries: readonly HistoryEntry[]; resolved: RecentItem[] } | null = null;
+
+    // Whether the current open session ended in a selection (close) or not (cancel + close)
+    private hasSelected: boolean = false;
+
+    // Checked state of toggle/checkbox/radio items whose `checked` is not a predicate
+    private checkedState: Map<string, boolean> = new Map();
+
+    constructor(items: RadialItem[] = []) {
+        this.items = items;
+        this.children.subscribe(() => {
+            this.recentsCache = null;
+            this.notify();
+        });
+        this.badges.subscribe(() => this.notify());
+        this.history.subscribe(() => this.notify());
         this.state = {
             status: MenuStatus.CLOSED,
             activePath: [],
@@ -31,43 +82,230 @@ export class BagelStateManager {
         return this.state;
     }
 
+    /**
+     * Item tree used to resolve index paths into items for event payloads.
+     */
+    public setItems(items: RadialItem[]) {
+        this.items = items;
+        this.recentsCache = null;
+    }
+
+    /**
+     * Resolves an index path into the items along it.
+     * Stops at the first index that does not exist.
+     */
+    public resolvePath(indices: number[]): RadialItem[] {
+        const pathItems: RadialItem[] = [];
+        let currentList = getVisibleItems(this.items);
+        for (const idx of indices) {
+            const item = currentList[idx];
+            if (!item) break;
+            pathItems.push(item);
+            currentList = this.children.getChildren(item);
+        }
+        return pathItems;
+    }
+
+    /**
+     * Items of the ring at `depth` along the given path (the root ring for depth 0).
+     */
+    private getRingItems(indices: number[], depth: number): RadialItem[] {
+        if (depth === 0) return getVisibleItems(this.items);
+        const parent = this.resolvePath(indices.slice(0, depth))[depth - 1];
+        return parent ? this.children.getChildren(parent) : [];
+    }
+
+    public isChecked(item: RadialItem): boolean {
+        if (typeof item.checked === 'function') return item.checked();
+        return this.checkedState.get(item.id) ?? !!item.checked;
+    }
+
+    /**
+     * Applies selecting a checkable item: toggles/checkboxes flip, a radio becomes the
+     * only checked item of its group. App-owned (predicate) state is only reported.
+     */
+    public commitChecked(indices: number[]) {
+        const pathItems = this.resolvePath(indices);
+        const item = pathItems[pathItems.length - 1];
+        if (!item || !isItemCheckable(item)) return;
+
+        if (item.type === 'radio') {
+            if (this.isChecked(item)) return;
+            const ring = this.getRingItems(indices, pathItems.length - 1);
+            ring.forEach(sibling => {
+                if (sibling !== item && sibling.type === 'radio' && sibling.group === item.group) {
+                    this.checkedState.set(sibling.id, false);
+                }
+            });
+            this.checkedState.set(item.id, true);
+            if (item.onCheckedChange) item.onCheckedChange(true, item);
+        } else {
+            const checked = !this.isChecked(item);
+            this.checkedState.set(item.id, checked);
+            if (item.onCheckedChange) item.onCheckedChange(checked, item);
+        }
+
+        this.notify();
+    }
+
+    /**
+     * Converts a path of item ids into slice indices.
+     * Returns null if any id cannot be found (e.g. lazy children that have not loaded yet).
+     */
+    public resolveIdPath(ids: string[]): number[] | null {
+        const indices: number[] = [];
+        let currentList = getVisibleItems(this.items);
+        for (const id of ids) {
+            const index = currentList.findIndex(item => item.id === id);
+            if (index === -1) return null;
+            indices.push(index);
+            currentList = this.children.getChildren(currentList[index]);
+        }
+        return indices;
+    }
+
+    /**
+     * Latest history entries that still resolve to enabled leaves, most recent first.
+     * Entries below lazy children resolve once those have loaded.
+     */
+    public getRecents(count: number): RecentItem[] {
+        const entries = this.history.getEntries();
+        if (!this.recentsCache || this.recentsCache.entries !== entries) {
+            const resolved: RecentItem[] = [];
+            for (const entry of entries) {
+                const indices = this.resolveIdPath(entry.ids);
+                if (!indices) continue;
+                const item = this.resolvePath(indices)[indices.length - 1];
+                if (item && !this.children.hasChildren(item)) resolved.push({ item, indices });
+            }
+            this.recentsCache = { entries, resolved };
+        }
+
+        // Disabled may be a predicate, so it is checked on every read
+        const recents: RecentItem[] = [];
+        for (const recent of this.recentsCache.resolved) {
+            if (recents.length >= count) break;
+            if (!isItemDisabled(recent.item)) recents.push(recent);
+        }
+        return recents;
+    }
+
     public subscribe(listener: StateListener): () => void {
         this.listeners.add(listener);
         return () => this.listeners.delete(listener);
     }
 
+    /**
+     * Typed lifecycle events with item-level payloads.
+     */
+    public on(type: BagelEventType, listener: BagelEventListener): () => void {
+        if (!this.eventListeners.has(type)) {
+            this.eventListeners.set(type, new Set());
+        }
+        this.eventListeners.get(type)!.add(listener);
+        return () => this.eventListeners.get(type)?.delete(listener);
+    }
+
     private notify() {
         this.listeners.forEach(listener => listener(this.state));
     }
 
-    public setStatus(status: MenuStatus) {
+    private emit(type: BagelEventType, indices: number[], source: InputSource) {
+        const listeners = this.eventListeners.get(type);
+        if (!listeners || listeners.size === 0) return;
+
+        const path = this.resolvePath(indices);
+        const event: BagelEvent = {
+            type,
+            path,
+            indices: [...indices],
+            depth: path.length - 1,
+            source,
+            timestamp: Date.now(),
+        };
+        listeners.forEach(listener => listener(event));
+    }
+
+    private emitClose(indices: number[], source: InputSource) {
+        if (!this.hasSelected) {
+            this.emit('cancel', indices, source);
+        }
+        this.emit('close', indices, source);
+        this.hasSelected = false;
+    }
+
+    public setStatus(status: MenuStatus, source: InputSource = 'programmatic') {
         if (this.state.status !== status) {
+            const wasClosed = this.state.status === MenuStatus.CLOSED;
             this.state.status = status;
+            if (status === MenuStatus.CLOSED) this.history.setHighlighted(-1);
             this.notify();
+
+            if (wasClosed) {
+                this.hasSelected = false;
+                this.recentsCache = null; // Hidden predicates may have changed while closed
+                this.emit('open', this.state.activePath, source);
+            } else if (status === MenuStatus.CLOSED) {
+                this.emitClose(this.state.activePath, source);
+            }
         }
     }
 
-    public setActivePath(path: number[]) {
+    public setActivePath(path: number[], source: InputSource = 'programmatic') {
         // Basic array equality check to avoid unnecessary updates
         if (this.state.activePath.length === path.length &&
             this.state.activePath.every((v, i) => v === path[i])) {
             return;
         }
+        const previousPath = this.state.activePath;
         this.state.activePath = [...path];
         this.notify();
+
+        // Stepping out to a prefix of the previous path is "back", anything else is a new highlight
+        const isBack = path.length < previousPath.length && path.every((v, i) => v === previousPath[i]);
+        this.emit(isBack ? 'back' : 'highlight', path, source);
+
+        // First highlight of a lazy branch starts loading its children
+        const pathItems = this.resolvePath(path);
+        const highlighted = pathItems[pathItems.length - 1];
+        if (highlighted && highlighted.loadChildren) {
+            this.children.load(highlighted);
+        }
     }
 
-    public setSelection(path: number[] | null) {
+    public setSelection(path: number[] | null, source: InputSource = 'programmatic') {
         this.state.selection = path;
         this.notify();
+
+        if (path) {
+            this.hasSelected = true;
+            const pathItems = this.resolvePath(path);
+            if (pathItems.length === path.length) this.history.record(pathItems.map(item => item.id));
+            this.emit('select', path, source);
+        }
     }
 
-    public reset() {
+    /**
+     * Reports a confirm on a disabled item; nothing changes, listeners can give feedback.
+     */
+    public reject(path: number[], source: InputSource = 'programmatic') {
+        this.emit('reject', path, source);
+    }
+
+    public reset(source: InputSource = 'programmatic') {
+        const wasOpen = this.state.status !== MenuStatus.CLOSED;
+        const closingPath = this.state.activePath;
         this.state = {
             status: MenuStatus.CLOSED,
             activePath: [],
             selection: null
         };
+        this.history.setHighlighted(-1);
         this.notify();
+
+        if (wasOpen) {
+            // Report the path that was active when the menu closed
+            this.emitClose(closingPath, source);
+        }
     }
 }
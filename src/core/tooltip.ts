@@ -0,0 +1,201 @@
+import { BagelConfig, Point, RadialItem } from '../types';
+import { BagelStateManager, MenuStatus } from './state';
+import { getArcSpan, getArcStart, getRingBounds, getSliceSpans } from './geometry';
+import { getVisibleItems } from './items';
+import { RenderSurface } from '../renderer/types';
+
+const DEFAULT_OFFSET = 8; // px
+const VIEWPORT_MARGIN = 8; // px
+
+let nextTooltipId = 1;
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+/**
+ * Outer edge of the highlighted slice (middle of its arc), relative to the menu center, with the
+ * angle it faces. Null when nothing is highlighted.
+ */
+export function getSliceAnchor(
+    activePath: number[],
+    rootItems: RadialItem[],
+    config: BagelConfig,
+    getChildren: (item: RadialItem) => RadialItem[]
+): { point: Point; theta: number } | null {
+    if (activePath.length === 0) return null;
+
+    let items = getVisibleItems(rootItems);
+    for (let depth = 0; depth < activePath.length - 1; depth++) {
+        const parent = items[activePath[depth]];
+        items = parent ? getChildren(parent) : [];
+    }
+
+    const depth = activePath.length - 1;
+    const span = getSliceSpans(items, getArcSpan(config))[activePath[depth]];
+    if (!span) return null;
+
+    const theta = getArcStart(config) + (span.start + span.end) / 2;
+    const { rOuter } = getRingBounds(depth, config);
+    return { point: { x: Math.cos(theta) * rOuter, y: Math.sin(theta) * rOuter }, theta };
+}
+
+/**
+ * Top-left corner for a box pushed outwards from an anchor along theta (the side facing the anchor
+ * touches it), clamped so the whole box stays inside the viewport.
+ */
+export function placeCallout(anchor: Point, theta: number, size: Size, viewport: Size, offset: number = DEFAULT_OFFSET): Point {
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+    const x = anchor.x + cos * offset - size.width / 2 + cos * size.width / 2;
+    const y = anchor.y + sin * offset - size.height / 2 + sin * size.height / 2;
+    return clampToViewport({ x, y }, size, viewport);
+}
+
+function clampToViewport(point: Point, size: Size, viewport: Size): Point {
+    const clamp = (value: number, max: number) => Math.max(VIEWPORT_MARGIN, Math.min(max - VIEWPORT_MARGIN, value));
+    return {
+        x: clamp(point.x, viewport.width - size.width),
+        y: clamp(point.y, viewport.height - size.height)
+    };
+}
+
+/**
+ * DOM adapter: shows the highlighted item's description (and shortcut hint) in an element of the
+ * overlay, next to its slice or in a caption below the menu. It follows activePath whether it
+ * changes from a glide, the keyboard or the API, and describes the render surface for assistive tech.
+ */
+export class TooltipController {
+    private surface: RenderSurface;
+    private stateManager: BagelStateManager;
+    private config: BagelConfig;
+    private rootItems: RadialItem[];
+    private unsubscribe: () => void;
+
+    private element: HTMLDivElement;
+    private descriptionElement: HTMLSpanElement;
+    private shortcutElement: HTMLElement;
+    private readonly id = `bagel-tooltip-${nextTooltipId++}`;
+
+    constructor(
+        container: HTMLElement,
+        surface: RenderSurface,
+        stateManager: BagelStateManager,
+        config: BagelConfig,
+        items: RadialItem[]
+    ) {
+        this.surface = surface;
+        this.stateManager = stateManager;
+        this.config = config;
+        this.rootItems = items;
+
+        this.element = document.createElement('div');
+        this.element.id = this.id;
+        this.element.className = 'bagel-tooltip';
+        this.element.setAttribute('role', 'tooltip');
+        this.element.setAttribute('aria-live', 'polite');
+        this.element.hidden = true;
+        Object.assign(this.element.style, {
+            position: 'fixed',
+            left: '0px',
+            top: '0px',
+            maxWidth: '240px',
+            padding: '6px 10px',
+            borderRadius: '6px',
+            background: 'var(--bagel-bg-inactive)',
+            border: '1px solid var(--bagel-border-color, transparent)',
+            color: 'var(--bagel-text-color)',
+            fontFamily: 'var(--bagel-font-family)',
+            fontSize: '12px',
+            lineHeight: '1.35',
+            pointerEvents: 'none',
+            backdropFilter: 'blur(6px)',
+            zIndex: '1'
+        });
+
+        this.descriptionElement = document.createElement('span');
+        this.descriptionElement.className = 'bagel-tooltip-description';
+        this.shortcutElement = document.createElement('kbd');
+        this.shortcutElement.className = 'bagel-tooltip-shortcut';
+        Object.assign(this.shortcutElement.style, {
+            marginLeft: '8px',
+            padding: '0 4px',
+            borderRadius: '3px',
+            border: '1px solid currentColor',
+            fontFamily: 'inherit',
+            fontSize: '11px',
+            opacity: '0.75'
+        });
+        this.element.append(this.descriptionElement, this.shortcutElement);
+        container.appendChild(this.element);
+
+        this.unsubscribe = this.stateManager.subscribe(this.update);
+        this.update();
+    }
+
+    public updateConfig(newConfig: BagelConfig) {
+        this.config = newConfig;
+        this.update();
+    }
+
+    public updateItems(newItems: RadialItem[]) {
+        this.rootItems = newItems;
+        this.update();
+    }
+
+    public destroy() {
+        this.unsubscribe();
+        this.surface.removeAttribute('aria-describedby');
+        this.element.remove();
+    }
+
+    /**
+     * Re-reads the highlighted item and re-positions; also call it after the menu moved or resized.
+     */
+    public update = () => {
+        const state = this.stateManager.getState();
+        const path = this.stateManager.resolvePath(state.activePath);
+        const item = path.length === state.activePath.length ? path[path.length - 1] : undefined;
+        const placement = this.config.tooltip?.placement ?? 'callout';
+
+        // Rings are hidden while a marking stroke is drawn
+        const isVisible = placement !== 'none' && !!item && (!!item.description || !!item.shortcut) &&
+            state.status !== MenuStatus.CLOSED && state.status !== MenuStatus.MARKING;
+
+        if (!isVisible || !item) {
+            this.element.hidden = true;
+            this.surface.removeAttribute('aria-describedby');
+            return;
+        }
+
+        this.descriptionElement.textContent = item.description ?? '';
+        this.shortcutElement.textContent = item.shortcut ?? '';
+        this.shortcutElement.hidden = !item.shortcut;
+        this.shortcutElement.style.marginLeft = item.description ? '8px' : '0px';
+        this.element.hidden = false;
+        this.surface.setAttribute('aria-describedby', this.id);
+
+        // Measured after the content is in, positions are in client coordinates (position: fixed)
+        const rect = this.surface.getBoundingClientRect();
+        const size = { width: this.element.offsetWidth, height: this.element.offsetHeight };
+        const viewport = { width: window.innerWidth, height: window.innerHeight };
+        const offset = this.config.tooltip?.offset ?? DEFAULT_OFFSET;
+        const center = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+
+        let position: Point;
+        const anchor = placement === 'callout'
+            ? getSliceAnchor(state.activePath, this.rootItems, this.config, (parent) => this.stateManager.children.getChildren(parent))
+            : null;
+        if (anchor) {
+            const point = { x: center.x + anchor.point.x, y: center.y + anchor.point.y };
+            position = placeCallout(point, anchor.theta, size, viewport, offset);
+        } else {
+            // Caption: centered below the menu
+            position = clampToViewport({ x: center.x - size.width / 2, y: rect.bottom + offset }, size, viewport);
+        }
+
+        this.element.style.left = `${Math.round(position.x)}px`;
+        this.element.style.top = `${Math.round(position.y)}px`;
+    };
+}
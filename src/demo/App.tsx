@@ -1,22 +1,34 @@
 import { useState, useEffect } from 'react';
 import { BagelMenu } from '../react/BagelMenu';
+import { useBagel } from '../react/useBagel';
 import { RadialItem, BagelConfig } from '../types';
 import { CREATOR_THEME, COMMUTER_THEME, POWER_USER_THEME, BagelTheme } from '../types/theme';
+import { createLocalStorageHistory } from '../core/history';
 
 // --- Demo Data ---
 
+// Created once, a new adapter would reload the history
+const historyStorage = createLocalStorageHistory('bagel-demo-history');
+
 const CREATOR_ITEMS: RadialItem[] = [
   {
     id: 'brushes', label: 'Brushes',
     color: 'rgba(200, 180, 255, 0.8)',
     children: [
-      { id: 'oil', label: 'Oil', action: () => console.log('Oil Brush') },
-      { id: 'watercolor', label: 'Watercolor', action: () => console.log('Watercolor Brush') },
-      { id: 'pencil', label: 'Pencil', action: () => console.log('Pencil Brush') },
+      { id: 'oil', label: 'Oil', type: 'radio', group: 'brush', checked: true, action: () => console.log('Oil Brush') },
+      { id: 'watercolor', label: 'Watercolor', type: 'radio', group: 'brush', action: () => console.log('Watercolor Brush') },
+      { id: 'pencil', label: 'Pencil', type: 'radio', group: 'brush', action: () => console.log('Pencil Brush') },
     ]
   },
-  { id: 'eraser', label: 'Eraser', color: 'rgba(255, 200, 230, 0.8)', action: () => console.log('Eraser Tool') },
+  { id: 'eraser', label: 'Eraser', color: 'rgba(255, 200, 230, 0.8)', description: 'Erase with the current brush shape', shortcut: 'E', action: () => console.log('Eraser Tool') },
   { id: 'layers', label: 'Layers', color: 'rgba(150, 120, 200, 0.8)', action: () => console.log('Layers Panel') },
+  {
+    id: 'snap', label: 'Snap',
+    color: 'rgba(170, 150, 230, 0.8)',
+    type: 'toggle',
+    keepOpen: true,
+    onCheckedChange: (checked) => console.log('Snap to grid:', checked)
+  },
   {
     id: 'filters', label: 'Filters',
     color: 'rgba(180, 160, 220, 0.8)',
@@ -43,17 +55,27 @@ const COMMUTER_ITEMS: RadialItem[] = [
 ];
 
 const POWER_USER_ITEMS: RadialItem[] = [
-  { id: 'cpu', label: 'CPU', color: 'rgba(0, 255, 255, 0.8)', action: () => console.log('CPU Stats') },
+  { id: 'cpu', label: 'CPU', color: 'rgba(0, 255, 255, 0.8)', description: 'Per-core load and top processes', shortcut: 'c', action: () => console.log('CPU Stats') },
   { id: 'net', label: 'Net', color: 'rgba(255, 0, 255, 0.8)', action: () => console.log('Network') },
   {
     id: 'sec', label: 'Sec',
     color: 'rgba(0, 255, 128, 0.8)',
     children: [
-      { id: 'scan', label: 'Scan' },
-      { id: 'firewall', label: 'Firewall' }
+      { id: 'scan', label: 'Scan', description: 'Quick scan of open ports and running services' },
+      { id: 'firewall', label: 'Firewall', badge: { severity: 'warning' } }
     ]
   },
-  { id: 'logs', label: 'Logs', color: 'rgba(255, 128, 0, 0.8)', action: () => console.log('View Logs') }
+  { id: 'logs', label: 'Logs', color: 'rgba(255, 128, 0, 0.8)', badge: 3, description: 'Tail the system log, unread lines are counted on the badge', shortcut: 'l', action: () => console.log('View Logs') },
+  {
+    id: 'procs', label: 'Procs',
+    color: 'rgba(128, 128, 255, 0.8)',
+    // Lazy branch: simulates fetching the process list from a local service
+    loadChildren: () => new Promise<RadialItem[]>(resolve => setTimeout(() => resolve([
+      { id: 'node', label: 'node', action: () => console.log('Inspect node') },
+      { id: 'vite', label: 'vite', action: () => console.log('Inspect vite') },
+      { id: 'tsc', label: 'tsc', action: () => console.log('Inspect tsc') }
+    ]), 800))
+  }
 ];
 
 type Scenario = 'creator' | 'commuter' | 'power';
@@ -103,10 +125,24 @@ export const App = () => {
   const [innerRadius, setInnerRadius] = useState(50);
   const [ringWidth, setRingWidth] = useState(60);
   const [gap, setGap] = useState(2); // Pixels
+  const [sound, setSound] = useState(false);
 
   // Theme state
   const [customTheme, setCustomTheme] = useState<Partial<BagelTheme>>({});
 
+  const bagel = useBagel();
+
+  // Power user: unread log lines keep arriving (badge-only updates, no item reset)
+  useEffect(() => {
+    if (scenario !== 'power') return;
+    let unread = 3;
+    const timer = window.setInterval(() => {
+      unread += 1 + Math.floor(Math.random() * 3);
+      bagel.setBadge('logs', { count: unread, severity: unread > 20 ? 'error' : 'warning' });
+    }, 4000);
+    return () => window.clearInterval(timer);
+  }, [scenario, bagel.setBadge]);
+
   // Persist sidebar state
   useEffect(() => {
     localStorage.setItem('bagel-sidebar-open', JSON.stringify(sidebarOpen));
@@ -165,7 +201,13 @@ export const App = () => {
     innerRadius,
     ringWidth,
     gap,
-    startAngle: -Math.PI / 2
+    startAngle: -Math.PI / 2,
+    labels: { shortcutHints: true },
+    center: { content: 'breadcrumb', backOnTap: true },
+    gesture: { flickToSelect: true, confirmBeyondRing: true },
+    gamepad: { enabled: true },
+    feedback: { sound },
+    history: { repeatOnTap: true, repeatKey: 'Shift+R', recents: 5, storage: historyStorage }
   };
 
   return (
@@ -321,6 +363,19 @@ export const App = () => {
                         className="w-full accent-blue-500"
                       />
                     </div>
+
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-gray-400">Sound</span>
+                      <button
+                        onClick={() => setSound(!sound)}
+                        className={`w-12 h-6 rounded-full p-1 transition-colors ${sound ? 'bg-green-500' : 'bg-gray-600'
+                          }`}
+                        aria-pressed={sound}
+                      >
+                        <div className={`w-4 h-4 bg-white rounded-full shadow-md transform transition-transform ${sound ? 'translate-x-6' : 'translate-x-0'
+                          }`} />
+                      </button>
+                    </div>
                   </div>
                 )}
               </div>
@@ -507,6 +562,7 @@ export const App = () => {
 
         {/* The Bagel - Always visible */}
         <BagelMenu
+          ref={bagel.menuRef}
           isOpen={true}
           onClose={() => { }}
           items={items}
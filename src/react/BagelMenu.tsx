@@ -1,9 +1,15 @@
-import React, { useEffect, useRef, useState, useLayoutEffect } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState, useLayoutEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { RadialItem, BagelConfig } from '../types';
-import { BagelStateManager, MenuStatus, MenuState } from '../core/state';
-import { CanvasRenderer } from '../renderer/canvas';
+import { RadialItem, BagelConfig, Point } from '../types';
+import { BagelStateManager, MenuStatus, MenuState, BagelEvent, BagelEventType } from '../core/state';
+import { BadgeValue } from '../core/badges';
+import { BagelRenderer, createRenderer, RendererType } from '../renderer';
 import { InputController } from '../core/input';
+import { TooltipController } from '../core/tooltip';
+import { GamepadInputController } from '../core/gamepad';
+import { FeedbackController } from '../core/feedback';
+import { fitMenuToViewport, getMaxRadius } from '../core/geometry';
+import { getVisibleItems, isItemCheckable, isItemDisabled } from '../core/items';
 import { BagelTheme, DEFAULT_THEME } from '../types/theme';
 
 interface BagelMenuProps {
@@ -11,52 +17,107 @@ interface BagelMenuProps {
   config: BagelConfig;
   theme?: Partial<BagelTheme>;
   onSelect?: (path: RadialItem[]) => void;
+  // Every lifecycle event (open, close, highlight, select, cancel, back) with the resolved item path
+  onEvent?: (event: BagelEvent) => void;
   isOpen: boolean;
   onClose: () => void;
   className?: string;
   width?: number;
   height?: number;
   debug?: boolean;
+  // Attach mode: long-press, right-click or pen-button press on the target opens the menu
+  // centered on the contact point instead of in the middle of the screen
+  target?: HTMLElement | React.RefObject<HTMLElement | null> | null;
+  // Rendering backend: 'canvas' (default), live 'svg' elements, or a canvas drawn from a
+  // Web 'worker' (falls back to 'canvas' without OffscreenCanvas support)
+  renderer?: RendererType;
 }
 
-export const BagelMenu: React.FC<BagelMenuProps> = ({
+/**
+ * Imperative controls exposed through `ref`. Paths are item ids from the root ring outwards;
+ * methods taking a path return false if it cannot be resolved (e.g. lazy children not loaded yet).
+ */
+export interface BagelMenuHandle {
+  // Opens the menu; in attach mode `at` (client coordinates) places it like a press on the target
+  open: (at?: Point) => void;
+  close: () => void;
+  // Opens the branch at idPath and focuses its ring of children
+  navigateTo: (idPath: string[]) => boolean;
+  highlight: (idPath: string[]) => boolean;
+  // Selects through the regular flow (actions, onSelect, checked state); false for branches and disabled items
+  select: (idPath: string[]) => boolean;
+  // Selects a history entry again (0, the default, is the last selection); false when there is none
+  repeat: (index?: number) => boolean;
+  getState: () => MenuState | null;
+  // Live badge of an item (null hides it); redraws without re-running the items effect
+  setBadge: (id: string, badge: BadgeValue) => void;
+  // Drops cached lazy children (all without an id) so they load again on the next highlight
+  invalidateChildren: (id?: string) => void;
+}
+
+export const BagelMenu = forwardRef<BagelMenuHandle, BagelMenuProps>(({
   items,
   config,
   theme,
   onSelect,
+  onEvent,
   isOpen,
   onClose,
   className,
   width = 300,
   height = 300,
-  debug = false
-}) => {
+  debug = false,
+  target,
+  renderer: rendererType = 'canvas'
+}, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
+
+  // Config actually in use; in attach mode the startAngle may be flipped to fit the screen
+  const placedConfigRef = useRef<BagelConfig>(config);
+
+  // Attach mode placement, shared by presses on the target and the imperative open(at)
+  const placeAtRef = useRef<((clientPoint: Point) => void) | null>(null);
 
   // Refs to hold instances to prevent recreation
   const stateManagerRef = useRef<BagelStateManager | null>(null);
-  const rendererRef = useRef<CanvasRenderer | null>(null);
+  const rendererRef = useRef<BagelRenderer | null>(null);
   const inputControllerRef = useRef<InputController | null>(null);
+  const tooltipControllerRef = useRef<TooltipController | null>(null);
+  const gamepadControllerRef = useRef<GamepadInputController | null>(null);
+  const feedbackControllerRef = useRef<FeedbackController | null>(null);
 
   // Expose some state for accessibility / debug if needed
-  const [, setMenuStatus] = useState<MenuStatus>(MenuStatus.CLOSED);
+  const [menuStatus, setMenuStatus] = useState<MenuStatus>(MenuStatus.CLOSED);
   const [hasInteracted, setHasInteracted] = useState(false);
 
+  // Attach target, resolved after every render so a ref attached later is still picked up
+  const [targetElement, setTargetElement] = useState<HTMLElement | null>(null);
+  useLayoutEffect(() => {
+    const resolved = (target && 'current' in target ? target.current : target) ?? null;
+    if (resolved !== targetElement) setTargetElement(resolved);
+  });
+
   // Initialize Engine - always initialize to show dead zone when closed
   useLayoutEffect(() => {
-    if (!canvasRef.current || !containerRef.current) return;
+    const surface = rendererType === 'svg' ? svgRef.current : canvasRef.current;
+    if (!surface || !containerRef.current) return;
+
+    placedConfigRef.current = config;
 
     // Create State Manager
-    const stateManager = new BagelStateManager();
+    const stateManager = new BagelStateManager(items);
     stateManagerRef.current = stateManager;
 
     // Create Renderer
-    const renderer = new CanvasRenderer(
-      canvasRef.current,
+    const renderer = createRenderer(
+      surface,
       stateManager,
       items,
-      config
+      config,
+      rendererType === 'worker'
     );
     if (debug) renderer.setDebug(true);
     rendererRef.current = renderer;
@@ -64,7 +125,7 @@ export const BagelMenu: React.FC<BagelMenuProps> = ({
 
     // Create Input Controller
     const inputController = new InputController(
-      canvasRef.current,
+      surface,
       stateManager,
       renderer,
       config,
@@ -72,6 +133,46 @@ export const BagelMenu: React.FC<BagelMenuProps> = ({
     );
     inputControllerRef.current = inputController;
 
+    // Description tooltip, a DOM element of the overlay so it stays accessible
+    const tooltipController = new TooltipController(containerRef.current, surface, stateManager, config, items);
+    tooltipControllerRef.current = tooltipController;
+
+    // Controllers: idle unless config.gamepad.enabled and a pad is connected
+    const gamepadController = new GamepadInputController(stateManager, config, items);
+    gamepadControllerRef.current = gamepadController;
+
+    // Haptics and tones for whatever input drives the menu
+    const feedbackController = new FeedbackController(stateManager, config);
+    feedbackControllerRef.current = feedbackController;
+
+    // Attach Mode: open at the contact point on the target element
+    if (targetElement) {
+      const placeAt = (clientPoint: Point) => {
+        const { origin, startAngle } = fitMenuToViewport(
+          clientPoint,
+          { width: window.innerWidth, height: window.innerHeight },
+          config,
+          getMaxRadius(items, config)
+        );
+
+        // Move the canvas synchronously so the next hit test is relative to the new center
+        const canvasContainer = canvasContainerRef.current;
+        if (canvasContainer) {
+          canvasContainer.style.left = `${origin.x - width / 2}px`;
+          canvasContainer.style.top = `${origin.y - height / 2}px`;
+        }
+
+        const placedConfig = { ...config, startAngle };
+        placedConfigRef.current = placedConfig;
+        renderer.updateConfig(placedConfig);
+        inputController.updateConfig(placedConfig);
+        tooltipController.updateConfig(placedConfig);
+        gamepadController.updateConfig(placedConfig);
+      };
+      placeAtRef.current = placeAt;
+      inputController.attach(targetElement, placeAt);
+    }
+
     // Subscribe to state changes
     const unsubscribe = stateManager.subscribe((state: MenuState) => {
       setMenuStatus(state.status);
@@ -90,62 +191,99 @@ export const BagelMenu: React.FC<BagelMenuProps> = ({
         // Let's say we request close.
         onClose();
       }
-
-      if (state.selection && onSelect) {
-        // Logic to trigger onSelect handled by InputController, 
-        // but if we want to ensure it passes through here or double check:
-        // InputController calls item.action/item.onSelect.
-        // If we want a global handler, we can rely on InputController calling it if we pass it down?
-        // InputController currently doesn't know about global onSelect.
-        // Let's patch InputController logic or just rely on state.selection change here?
-        // State selection is indices. We need items.
-        // Reconstructing path here is safer for global handler.
-        const pathItems: RadialItem[] = [];
-        let currentList = items;
-        for (const idx of state.selection) {
-          const item = currentList[idx];
-          if (item) {
-            pathItems.push(item);
-            currentList = item.children || [];
-          } else {
-            break;
-          }
-        }
-        onSelect(pathItems);
-      }
     });
 
+    // Lifecycle events already carry the resolved item path
+    const eventTypes: BagelEventType[] = ['open', 'close', 'highlight', 'select', 'cancel', 'back', 'reject'];
+    const unsubscribeEvents = eventTypes.map(type => stateManager.on(type, (event) => {
+      if (type === 'select' && onSelect) onSelect(event.path);
+      if (onEvent) onEvent(event);
+    }));
+
     // Resize Observer
     const resizeObserver = new ResizeObserver(() => {
       renderer.resize();
+      tooltipController.update();
     });
     resizeObserver.observe(containerRef.current);
 
     return () => {
       unsubscribe();
+      unsubscribeEvents.forEach(off => off());
       resizeObserver.disconnect();
       inputController.destroy();
+      tooltipController.destroy();
+      gamepadController.destroy();
+      feedbackController.destroy();
       renderer.stop();
       // Clear refs to allow re-initialization
+      placeAtRef.current = null;
       stateManagerRef.current = null;
       rendererRef.current = null;
       inputControllerRef.current = null;
+      tooltipControllerRef.current = null;
+      gamepadControllerRef.current = null;
+      feedbackControllerRef.current = null;
     };
     // Re-run if dependencies change
-  }, [isOpen, items, config, debug]);
+  }, [isOpen, items, config, debug, targetElement, width, height, rendererType]);
 
   // Sync Props
   useEffect(() => {
     if (rendererRef.current) {
-      rendererRef.current.updateConfig(config);
+      rendererRef.current.updateConfig(placedConfigRef.current);
       rendererRef.current.updateItems(items);
       rendererRef.current.setDebug(debug);
     }
     if (inputControllerRef.current) {
-      inputControllerRef.current.updateConfig(config);
+      inputControllerRef.current.updateConfig(placedConfigRef.current);
       inputControllerRef.current.updateItems(items);
     }
-  }, [config, items, debug]);
+    if (tooltipControllerRef.current) {
+      tooltipControllerRef.current.updateConfig(placedConfigRef.current);
+      tooltipControllerRef.current.updateItems(items);
+    }
+    if (gamepadControllerRef.current) {
+      gamepadControllerRef.current.updateConfig(placedConfigRef.current);
+      gamepadControllerRef.current.updateItems(items);
+    }
+    if (feedbackControllerRef.current) {
+      feedbackControllerRef.current.updateConfig(placedConfigRef.current);
+    }
+  }, [config, items, debug, targetElement]);
+
+  // Imperative Handle
+  useImperativeHandle(ref, () => {
+    // Resolve ids against the live tree, then hand the indices to the controller
+    const withPath = (idPath: string[], run: (controller: InputController, indices: number[]) => boolean | void) => {
+      const controller = inputControllerRef.current;
+      const indices = stateManagerRef.current?.resolveIdPath(idPath);
+      if (!controller || !indices) return false;
+      return run(controller, indices) !== false;
+    };
+
+    return {
+      open: (at?: Point) => {
+        if (at && placeAtRef.current) placeAtRef.current(at);
+        inputControllerRef.current?.open();
+      },
+      close: () => inputControllerRef.current?.close(),
+      navigateTo: (idPath) => withPath(idPath, (controller, indices) => controller.navigateTo(indices)),
+      highlight: (idPath) => withPath(idPath, (controller, indices) => controller.highlight(indices)),
+      select: (idPath) => withPath(idPath, (controller, indices) => controller.select(indices)),
+      repeat: (index) => inputControllerRef.current?.repeat(index) ?? false,
+      getState: () => {
+        const state = stateManagerRef.current?.getState();
+        return state ? {
+          ...state,
+          activePath: [...state.activePath],
+          selection: state.selection ? [...state.selection] : null
+        } : null;
+      },
+      setBadge: (id, badge) => stateManagerRef.current?.badges.set(id, badge),
+      invalidateChildren: (id) => stateManagerRef.current?.children.invalidate(id)
+    };
+  }, []);
 
   // Menu is always visible, state is managed internally by InputController
   // No need to sync isOpen prop since menu is always rendered
@@ -156,6 +294,10 @@ export const BagelMenu: React.FC<BagelMenuProps> = ({
     ...theme
   } as React.CSSProperties;
 
+  // In attach mode the overlay only intercepts pointers while the menu is open
+  const isAttached = !!target;
+  const isHidden = isAttached && menuStatus === MenuStatus.CLOSED;
+
   // Always render canvas (shows dead zone when closed, full menu when open)
   return createPortal(
     <div
@@ -168,23 +310,50 @@ export const BagelMenu: React.FC<BagelMenuProps> = ({
         width: '100vw',
         height: '100vh',
         zIndex: 9999,
-        pointerEvents: 'auto', // Always allow interaction
+        pointerEvents: isHidden ? 'none' : 'auto', // Attach mode lets pointers through to the target while closed
         display: 'flex',
         alignItems: 'center',
         justifyContent: 'center',
         ...themeStyles // Apply CSS variables
       }}
+      onPointerDown={(event) => {
+        // Attach mode: pressing outside the rings dismisses the menu
+        if (isAttached && event.target === event.currentTarget) {
+          inputControllerRef.current?.close();
+        }
+      }}
     >
-      {/* Container for Canvas to size it */}
-      <div style={{ width, height, position: 'relative' }}>
-        <canvas
-          ref={canvasRef}
-          style={{
-            display: 'block',
-            width: '100%',
-            height: '100%'
-          }}
-        />
+      {/* Container for the render surface to size it (positioned at the contact point in attach mode) */}
+      <div
+        ref={canvasContainerRef}
+        style={{
+          width,
+          height,
+          position: isAttached ? 'absolute' : 'relative',
+          visibility: isHidden ? 'hidden' : 'visible'
+        }}
+      >
+        {rendererType === 'svg' ? (
+          <svg
+            ref={svgRef}
+            style={{
+              display: 'block',
+              width: '100%',
+              height: '100%'
+            }}
+          />
+        ) : (
+          // Keyed so switching between in-thread and worker drawing gets a fresh (not yet transferred) canvas
+          <canvas
+            key={rendererType}
+            ref={canvasRef}
+            style={{
+              display: 'block',
+              width: '100%',
+              height: '100%'
+            }}
+          />
+        )}
       </div>
 
       {/* Hidden A11y Tree */}
@@ -200,9 +369,16 @@ export const BagelMenu: React.FC<BagelMenuProps> = ({
       >
         <ul role="menu" aria-expanded={isOpen}>
           {/* Recursive list generation could go here for screen readers */}
-          {items.map((item) => (
-            <li key={item.id} role="menuitem">
+          {getVisibleItems(items).map((item) => (
+            <li
+              key={item.id}
+              role={item.type === 'radio' ? 'menuitemradio' : isItemCheckable(item) ? 'menuitemcheckbox' : 'menuitem'}
+              aria-checked={isItemCheckable(item) ? !!stateManagerRef.current?.isChecked(item) : undefined}
+              aria-disabled={isItemDisabled(item) || undefined}
+              aria-keyshortcuts={item.shortcut}
+            >
               {item.label}
+              {item.description && <span className="bagel-a11y-description">{`: ${item.description}`}</span>}
             </li>
           ))}
         </ul>
@@ -210,4 +386,6 @@ export const BagelMenu: React.FC<BagelMenuProps> = ({
     </div>,
     document.body
   );
-};
+});
+
+BagelMenu.displayName = 'BagelMenu';
@@ -1,36 +1,64 @@
 import { useRef, useCallback } from 'react';
+import { Point } from '../types';
+import { MenuState } from '../core/state';
+import { BadgeValue } from '../core/badges';
+import type { BagelMenuHandle } from './BagelMenu';
 
-// This hook might need access to the Manager instance. 
-// Ideally, BagelMenu should expose the manager or we use Context.
-// For now, let's assume useBagel creates a manager or controls one.
-// Actually, usage pattern: <BagelMenu ref={bagelRef} ... />
-// Or hook returns props?
-
-// "Task: Hook for programmatic control"
-// Usually this means exposing open/close methods.
-
+/**
+ * Programmatic control of a <BagelMenu />.
+ * Usage: const bagel = useBagel(); <BagelMenu ref={bagel.menuRef} ... />
+ * then drive it from toolbar buttons or hotkeys, e.g. bagel.navigateTo(['brushes']).
+ * Controls are no-ops (or return false / null) until the menu has mounted.
+ */
 export function useBagel() {
-  // Since the state manager is internal to the component in the current design,
-  // we would need a ref to the component to control it.
-  // OR we lift the state manager out.
-  
-  // Design choice: Simple ref handle.
-  
-  const menuRef = useRef<any>(null); // Type this properly if we expose an imperative handle
+  const menuRef = useRef<BagelMenuHandle>(null);
 
-  const open = useCallback(() => {
-    // Logic to open via ref
+  const open = useCallback((at?: Point) => {
+    menuRef.current?.open(at);
   }, []);
 
   const close = useCallback(() => {
-    // Logic to close via ref
+    menuRef.current?.close();
+  }, []);
+
+  const navigateTo = useCallback((idPath: string[]): boolean => {
+    return menuRef.current?.navigateTo(idPath) ?? false;
+  }, []);
+
+  const highlight = useCallback((idPath: string[]): boolean => {
+    return menuRef.current?.highlight(idPath) ?? false;
+  }, []);
+
+  const select = useCallback((idPath: string[]): boolean => {
+    return menuRef.current?.select(idPath) ?? false;
+  }, []);
+
+  const repeat = useCallback((index?: number): boolean => {
+    return menuRef.current?.repeat(index) ?? false;
+  }, []);
+
+  const getState = useCallback((): MenuState | null => {
+    return menuRef.current?.getState() ?? null;
+  }, []);
+
+  const setBadge = useCallback((id: string, badge: BadgeValue) => {
+    menuRef.current?.setBadge(id, badge);
+  }, []);
+
+  const invalidateChildren = useCallback((id?: string) => {
+    menuRef.current?.invalidateChildren(id);
   }, []);
 
   return {
       menuRef,
       open,
-      close
+      close,
+      navigateTo,
+      highlight,
+      select,
+      repeat,
+      getState,
+      setBadge,
+      invalidateChildren
   };
 }
-
-
@@ -0,0 +1,53 @@
+import { BadgeSeverity, RadialItemBadge } from '../types';
+import { SliceFrame } from './labels';
+
+const SEVERITY_COLORS: Record<BadgeSeverity, string> = {
+    info: '#3b82f6',
+    success: '#22c55e',
+    warning: '#f59e0b',
+    error: '#ef4444',
+};
+
+export const BADGE_TEXT_COLOR = '#ffffff';
+export const BADGE_FONT_SIZE = 9;
+
+export interface BadgeShape {
+    x: number; // Center
+    y: number;
+    width: number; // A pill, or a circle when width equals height
+    height: number;
+    text: string | null; // Count or "!", null for a plain dot
+    color: string;
+}
+
+export function getBadgeText(badge: RadialItemBadge): string | null {
+    if (badge.count) {
+        const max = badge.max ?? 99;
+        return badge.count > max ? `${max}+` : String(badge.count);
+    }
+    if (badge.dot) return null;
+    return '!'; // Severity marker
+}
+
+/**
+ * Badge geometry in the slice's outer corner at the end of its arc (top right for a slice at 12 o'clock)
+ * @param measure - Width of the badge text at BADGE_FONT_SIZE
+ */
+export function getBadgeShape(badge: RadialItemBadge, frame: SliceFrame, measure: (text: string) => number): BadgeShape {
+    const text = getBadgeText(badge);
+    const height = text ? 14 : 8;
+    const width = text ? Math.max(height, measure(text) + 8) : height;
+
+    const r = frame.rOuter - height / 2 - 2;
+    const sweep = frame.endTheta - frame.startTheta;
+    const theta = frame.endTheta - Math.min((width / 2 + 3) / r, sweep / 2);
+
+    return {
+        x: Math.cos(theta) * r,
+        y: Math.sin(theta) * r,
+        width,
+        height,
+        text,
+        color: badge.color ?? SEVERITY_COLORS[badge.severity ?? 'error'],
+    };
+}
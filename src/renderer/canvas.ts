@@ -1,18 +1,29 @@
-import { BagelConfig, Point, RadialItem } from '../types';
-import { BagelStateManager, MenuState, MenuStatus } from '../core/state';
-import { cartesianToPolar, TWO_PI } from '../core/geometry';
+import { BagelConfig, Point, RadialItem, RadialItemBadge } from '../types';
+import { MenuState, MenuStatus } from '../core/state';
+import { cartesianToPolar, getArcSpan, getArcStart, getCenterRadius, getRecentsBounds, getRingBounds, getSliceSpans, hitTest, SliceSpan, TWO_PI } from '../core/geometry';
 // Removed gradient/blur imports - using plain solid colors now
-import { AnimationManager, easeOutCubic, easeInOutCubic, spring } from './effects/animations';
+import { AnimationManager, easeOutCubic, EasingFunction, parseEasing, spring } from './effects/animations';
 import { ParticleEmitter } from './effects/particles';
-
-export class CanvasRenderer {
-    private canvas: HTMLCanvasElement;
+import { getVisibleItems, isItemCheckable, isItemDisabled } from '../core/items';
+import { BagelRenderer, RenderStateSource, SurfaceSize } from './types';
+import { getTreeColor, interpolateColor, lightenColor } from './colors';
+import { readRenderTheme, RenderTheme } from './theme';
+import { getIconLayout, getIconTint, IconAtlas } from './icons';
+import { BADGE_FONT_SIZE, BADGE_TEXT_COLOR, getBadgeShape } from './badges';
+import { createCanvasMeasure, getHintPosition, HINT_FONT_SIZE, LabelLayout, LabelLine, layoutLabel, MeasureText, SliceFrame } from './labels';
+import { getShortcutHint } from '../core/shortcuts';
+import { CENTER_FONT_SIZE, layoutCenter, resolveCenterPath } from './center';
+
+export class CanvasRenderer implements BagelRenderer {
+    public readonly drawsRecents = true;
+    private canvas: HTMLCanvasElement | OffscreenCanvas;
     private ctx: CanvasRenderingContext2D;
-    private stateManager: BagelStateManager;
+    private stateManager: RenderStateSource;
     private config: BagelConfig;
     private rootItems: RadialItem[];
 
     private rafId: number | null = null;
+    private unsubscribe: (() => void) | null = null;
     private paths: Map<string, Path2D> = new Map();
     private isDirty: boolean = true;
     private debug: boolean = false;
@@ -30,35 +41,38 @@ export class CanvasRenderer {
     private ringOpacities: Map<number, number> = new Map(); // depth -> opacity
     private ringScales: Map<number, number> = new Map(); // depth -> scale
 
-    // Debounce timers for ring animations to prevent flickering
-    private ringAnimationTimers: Map<number, number> = new Map(); // depth -> timer ID
-    private readonly RING_ANIMATION_DELAY = 50; // ms delay before triggering ring animations
 
     // State transition tracking
     private itemStates: Map<string, boolean> = new Map(); // Track active state: `${depth}-${index}`
     private itemColors: Map<string, string> = new Map(); // Track current animated color: `${depth}-${index}`
 
-    // Tree-based color system
-    private treeColors: Map<number, string> = new Map(); // Track color per parent tree: parentIndex -> color
-    private readonly COLOR_PALETTE = [
-        'rgba(59, 130, 246, 0.8)',   // Blue
-        'rgba(34, 197, 94, 0.8)',    // Green
-        'rgba(168, 85, 247, 0.8)',   // Purple
-        'rgba(249, 115, 22, 0.8)',   // Orange
-        'rgba(20, 184, 166, 0.8)',   // Teal
-        'rgba(236, 72, 153, 0.8)',   // Pink
-        'rgba(239, 68, 68, 0.8)',    // Red
-        'rgba(251, 191, 36, 0.8)',   // Yellow
-    ];
+    // An OffscreenCanvas has no element to measure or read CSS variables from; both are set from outside
+    private surfaceSize: SurfaceSize | null = null;
+    private theme: RenderTheme | null = null;
+    private dpr: number = 1;
+
+    // Theme read for the current frame, animations started outside render() take their timing from it
+    private frameTheme: RenderTheme | null = null;
+
+    // Pre-rasterized item icons; redraw when an image finishes decoding
+    private icons: IconAtlas = new IconAtlas(() => {
+        this.isDirty = true;
+    });
+
+    // Fitted labels per slice, font weight and label text
+    private labelLayouts: Map<string, LabelLayout> = new Map();
+    // Full text of the highlighted label when it had to be truncated, shown as the canvas tooltip
+    private labelTitle: string = '';
 
     constructor(
-        canvas: HTMLCanvasElement,
-        stateManager: BagelStateManager,
+        canvas: HTMLCanvasElement | OffscreenCanvas,
+        stateManager: RenderStateSource,
         items: RadialItem[],
         config: BagelConfig
     ) {
         this.canvas = canvas;
-        this.ctx = canvas.getContext('2d')!;
+        // The offscreen 2D context supports everything drawn here
+        this.ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
         this.stateManager = stateManager;
         this.rootItems = items;
         this.config = config;
@@ -66,11 +80,6 @@ export class CanvasRenderer {
         // Handle high DPI
         this.setupResolution();
 
-        // Listen to state changes
-        this.stateManager.subscribe(() => {
-            this.isDirty = true;
-        });
-
         // Initialize effects
         this.animationManager = new AnimationManager();
         this.particleEmitter = new ParticleEmitter();
@@ -78,6 +87,7 @@ export class CanvasRenderer {
         // Initial path generation
         console.log('[Renderer] Initializing CanvasRenderer...');
         this.recalculatePaths();
+        this.icons.preload(items);
     }
 
     public setDebug(enabled: boolean) {
@@ -88,14 +98,15 @@ export class CanvasRenderer {
     public updateConfig(newConfig: BagelConfig) {
         this.config = newConfig;
         this.recalculatePaths();
-        this.treeColors.clear(); // Clear tree colors on config change
+        this.labelLayouts.clear();
         this.isDirty = true;
     }
 
     public updateItems(newItems: RadialItem[]) {
         this.rootItems = newItems;
         this.recalculatePaths();
-        this.treeColors.clear(); // Clear tree colors when items change
+        this.labelLayouts.clear();
+        this.icons.preload(newItems);
         this.isDirty = true;
     }
 
@@ -110,38 +121,84 @@ export class CanvasRenderer {
 
     public start() {
         console.log('[Renderer] Start called. RAF ID:', this.rafId);
+        // Listen to state changes while running, so a stopped renderer can be dropped
+        if (!this.unsubscribe) {
+            this.unsubscribe = this.stateManager.subscribe(this.markDirty);
+            this.isDirty = true;
+        }
         if (!this.rafId) {
             this.loop();
         }
     }
 
     public stop() {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
         if (this.rafId) {
             cancelAnimationFrame(this.rafId);
             this.rafId = null;
         }
-        // Clear any pending ring animation timers
-        this.ringAnimationTimers.forEach((timerId) => {
-            clearTimeout(timerId);
-        });
-        this.ringAnimationTimers.clear();
     }
 
-    public resize() {
+    private markDirty = () => {
+        this.isDirty = true;
+    };
+
+    /**
+     * Re-measures the canvas. An OffscreenCanvas has to be given its size.
+     */
+    public resize(size?: SurfaceSize) {
+        if (size) this.surfaceSize = size;
         this.setupResolution();
         this.isDirty = true;
     }
 
+    /**
+     * Theme to use instead of the canvas element's CSS variables (required for an OffscreenCanvas)
+     */
+    public setTheme(theme: RenderTheme) {
+        this.theme = theme;
+        this.isDirty = true;
+    }
+
     private setupResolution() {
-        const dpr = window.devicePixelRatio || 1;
-        const rect = this.canvas.getBoundingClientRect();
+        const size = this.surfaceSize ?? this.measure();
+        if (!size) return;
+        const { width, height, dpr } = size;
+        this.dpr = dpr;
 
         // Set actual size in memory (scaled to account for extra pixel density)
-        this.canvas.width = rect.width * dpr;
-        this.canvas.height = rect.height * dpr;
+        this.canvas.width = width * dpr;
+        this.canvas.height = height * dpr;
 
         // Normalize coordinate system to use css pixels
-        this.ctx.setTransform(dpr, 0, 0, dpr, rect.width * dpr / 2, rect.height * dpr / 2);
+        this.ctx.setTransform(dpr, 0, 0, dpr, width * dpr / 2, height * dpr / 2);
+    }
+
+    private measure(): SurfaceSize | null {
+        if (!this.isElement(this.canvas)) return null;
+        const rect = this.canvas.getBoundingClientRect();
+        return { width: rect.width, height: rect.height, dpr: window.devicePixelRatio || 1 };
+    }
+
+    private readTheme(): RenderTheme {
+        if (this.theme) return this.theme;
+        return readRenderTheme(this.isElement(this.canvas) ? this.canvas : null);
+    }
+
+    /**
+     * Transition timing from the theme (--bagel-transition-duration / --bagel-easing-function)
+     */
+    private getTiming(): { duration: number; easing: EasingFunction } {
+        const theme = this.frameTheme ?? this.readTheme();
+        return { duration: theme.transitionDuration, easing: parseEasing(theme.easing, easeOutCubic) };
+    }
+
+    // HTMLCanvasElement does not exist inside a worker
+    private isElement(canvas: HTMLCanvasElement | OffscreenCanvas): canvas is HTMLCanvasElement {
+        return typeof HTMLCanvasElement !== 'undefined' && canvas instanceof HTMLCanvasElement;
     }
 
     private loop = (currentTime: number = 0) => {
@@ -161,8 +218,10 @@ export class CanvasRenderer {
         if (!this.lastState || this.lastState.status !== state.status ||
             JSON.stringify(this.lastState.activePath) !== JSON.stringify(state.activePath)) {
 
-            // When opening from closed, animate first ring
-            if (state.status === MenuStatus.OPEN && (!this.lastState || this.lastState.status === MenuStatus.CLOSED)) {
+            // When opening from closed (or from a marking stroke that paused), animate first ring
+            const wasHidden = !this.lastState || this.lastState.status === MenuStatus.CLOSED ||
+                this.lastState.status === MenuStatus.MARKING;
+            if ((state.status === MenuStatus.OPEN || state.status === MenuStatus.GLIDING) && wasHidden) {
                 // Animate first ring (depth 0) appearing
                 this.animateRingAppearance(0);
             }
@@ -177,38 +236,19 @@ export class CanvasRenderer {
                 }
             }
 
-            // When activePath changes, animate new rings appearing (with delay to prevent flickering)
+            // When activePath changes, animate new rings appearing
+            // (hit-test hysteresis keeps the path from flipping at ring edges)
             if (state.status === MenuStatus.OPEN || state.status === MenuStatus.GLIDING) {
                 const currentMaxDepth = state.activePath.length;
                 const lastMaxDepth = this.lastState ? this.lastState.activePath.length : -1;
 
-                // Clear any pending timers
-                this.ringAnimationTimers.forEach((timerId) => {
-                    clearTimeout(timerId);
-                });
-                this.ringAnimationTimers.clear();
-
-                // Animate new rings appearing (with delay)
-                for (let d = 0; d <= currentMaxDepth; d++) {
-                    if (d > lastMaxDepth) {
-                        // New ring to show - add delay to prevent flickering
-                        const timerId = window.setTimeout(() => {
-                            this.animateRingAppearance(d);
-                            this.ringAnimationTimers.delete(d);
-                        }, this.RING_ANIMATION_DELAY);
-                        this.ringAnimationTimers.set(d, timerId);
-                    }
+                for (let d = lastMaxDepth + 1; d <= currentMaxDepth; d++) {
+                    this.animateRingAppearance(d);
                 }
 
-                // Hide rings that are no longer needed (immediate, no delay for closing)
+                // Hide rings that are no longer needed
                 for (let d = currentMaxDepth + 1; d < 10; d++) {
                     if (this.ringOpacities.has(d) && this.ringOpacities.get(d)! > 0) {
-                        // Cancel any pending appearance animation
-                        const pendingTimer = this.ringAnimationTimers.get(d);
-                        if (pendingTimer) {
-                            clearTimeout(pendingTimer);
-                            this.ringAnimationTimers.delete(d);
-                        }
                         this.animateRingDisappearance(d);
                     }
                 }
@@ -241,9 +281,12 @@ export class CanvasRenderer {
                 this.animationManager.isActive(`ring-scale-${depth}`);
         });
 
+        // Keep the loading spinner moving
+        const hasPendingChildren = this.stateManager.children.isLoading();
+
         if (this.isDirty || hasRingAnimations ||
             this.particleEmitter.getCount() > 0 ||
-            hasColorAnimations) {
+            hasColorAnimations || hasPendingChildren) {
             this.render();
             this.isDirty = false;
         }
@@ -252,7 +295,8 @@ export class CanvasRenderer {
 
     private recalculatePaths() {
         this.paths.clear();
-        console.log('[Renderer] Recalculating paths for', this.rootItems.length, 'items');
+        const rootItems = getVisibleItems(this.rootItems);
+        console.log('[Renderer] Recalculating paths for', rootItems.length, 'items');
         // Recursively calculate paths for all reachable items
         // For simplicity in Phase 2, we'll just calculate paths for visible rings based on potentially expanding logic.
         // Or simpler: Just calculate paths for the root and let 'render' handle logic?
@@ -260,7 +304,7 @@ export class CanvasRenderer {
         // But for "gliding", we might want pre-calc.
 
         // Let's implement a recursive path generator that walks the tree.
-        this.generatePathsRecursive(this.rootItems, 0);
+        this.generatePathsRecursive(rootItems, 0);
     }
 
     private generatePathsRecursive(items: RadialItem[], depth: number) {
@@ -270,18 +314,13 @@ export class CanvasRenderer {
             return;
         }
 
-        const { innerRadius, ringWidth, startAngle = -Math.PI / 2, gap = 0 } = this.config;
-        const count = items.length;
-        const sliceAngle = TWO_PI / count;
+        const { gap = 0 } = this.config;
+        const arcStart = getArcStart(this.config);
+        const ringKey = this.getRingKey(items);
+        const spans = this.getSpans(items);
 
         // Calculate ring bounds with pixel gaps (radial gaps between circles)
-        // Use gap directly in pixels without scaling
-        let rInner = innerRadius;
-        for (let d = 0; d < depth; d++) {
-            rInner += ringWidth + (gap || 0); // Use gap directly in pixels
-        }
-
-        const rOuter = rInner + ringWidth;
+        const { rInner, rOuter } = getRingBounds(depth, this.config);
 
         // Calculate slice gap angle from pixel gap
         // Use middle radius for more accurate straight gap calculation
@@ -290,11 +329,11 @@ export class CanvasRenderer {
         const gapPixels = gap || 0;
         const rMid = (rInner + rOuter) / 2; // Middle radius of the ring
         const gapAngle = gapPixels > 0 ? (gapPixels / rMid) : 0;
-        const effectiveSliceAngle = sliceAngle - gapAngle;
 
-        items.forEach((_item, index) => {
-            const startTheta = startAngle + index * sliceAngle + gapAngle / 2;
-            const endTheta = startTheta + effectiveSliceAngle;
+        spans.forEach((span, index) => {
+            // Each slice gets its own (weighted) angle, minus the gap
+            const startTheta = arcStart + span.start + gapAngle / 2;
+            const endTheta = arcStart + span.end - gapAngle / 2;
 
             const path = new Path2D();
             path.arc(0, 0, rOuter, startTheta, endTheta, false);
@@ -322,29 +361,76 @@ export class CanvasRenderer {
             // Or just re-generate paths for the active view? 
             // Given the requirement "Store these in a Map/Cache", let's assume we cache based on specific item configuration.
 
-            // Better key: `${depth}-${count}-${index}`
-            // This way, if we switch from a menu of 4 items to 8 items at depth 1, we use different cache keys.
-            this.paths.set(`${depth}-${count}-${index}`, path);
+            // Better key: `${depth}-${ringKey}-${index}`
+            // The ring key encodes the item count and weights, so if we switch from a menu of 4 items
+            // to 8 items (or to differently weighted items) at depth 1, we use different cache keys.
+            this.paths.set(`${depth}-${ringKey}-${index}`, path);
 
             // Pre-calculate children? 
             // We don't know which children will be shown until runtime.
             // We can lazily generate or generate all. Generating all might be expensive for deep trees.
             // For now, let's just generate the root. The render loop will handle on-the-fly generation if needed or we update this.
-            // Actually, standard optimization: cache by `${depth}-${itemCount}-${index}`.
+            // Actually, standard optimization: cache by `${depth}-${ringKey}-${index}`.
         });
     }
 
+    /**
+     * Cache key describing a ring's slice layout (count and weights)
+     */
+    private getRingKey(items: RadialItem[]): string {
+        return items.map(item => item.weight ?? 1).join(',');
+    }
+
+    /**
+     * Slice layout for a ring, respecting item weights and the configured arc
+     */
+    private getSpans(items: RadialItem[]): SliceSpan[] {
+        return getSliceSpans(items, getArcSpan(this.config));
+    }
+
+    /**
+     * Slice geometry for label layout, with the same gap as the slice path
+     */
+    private getSliceFrame(depth: number, span: SliceSpan, iconSize: number): SliceFrame {
+        const { rInner, rOuter } = getRingBounds(depth, this.config);
+        const gapAngle = (this.config.gap || 0) / ((rInner + rOuter) / 2);
+        const arcStart = getArcStart(this.config);
+        return {
+            depth,
+            rInner,
+            rOuter,
+            startTheta: arcStart + span.start + gapAngle / 2,
+            endTheta: arcStart + span.end - gapAngle / 2,
+            iconSize
+        };
+    }
+
+    /**
+     * Center point of a slice, used for icons, particles and the pulse animation
+     */
+    private getSliceCenter(depth: number, span: SliceSpan): Point {
+        const { rInner, rOuter } = getRingBounds(depth, this.config);
+        const rMid = (rInner + rOuter) / 2;
+        const thetaMid = getArcStart(this.config) + (span.start + span.end) / 2;
+
+        return {
+            x: Math.cos(thetaMid) * rMid,
+            y: Math.sin(thetaMid) * rMid
+        };
+    }
+
     /**
      * Trigger selection pulse animation
      */
     private triggerSelectionPulse(depth: number, index: number): void {
         const pulseId = `pulse-${depth}-${index}`;
+        const { duration, easing } = this.getTiming();
         this.animationManager.animate(
             pulseId,
             1.0,
             1.05,
-            50,
-            easeOutCubic,
+            duration / 4,
+            easing,
             undefined,
             () => {
                 // Pulse back
@@ -352,52 +438,20 @@ export class CanvasRenderer {
                     pulseId,
                     1.05,
                     1.0,
-                    50,
-                    easeOutCubic
+                    duration / 4,
+                    easing
                 );
             }
         );
     }
 
-    /**
-     * Interpolate between two RGBA colors
-     */
-    private interpolateColor(color1: string, color2: string, t: number): string {
-        const rgba1 = this.parseRGBA(color1);
-        const rgba2 = this.parseRGBA(color2);
-
-        if (!rgba1 || !rgba2) return color1;
-
-        const r = Math.round(rgba1.r + (rgba2.r - rgba1.r) * t);
-        const g = Math.round(rgba1.g + (rgba2.g - rgba1.g) * t);
-        const b = Math.round(rgba1.b + (rgba2.b - rgba1.b) * t);
-        const a = rgba1.a + (rgba2.a - rgba1.a) * t;
-
-        return `rgba(${r}, ${g}, ${b}, ${a})`;
-    }
-
-    /**
-     * Parse RGBA color string to object
-     */
-    private parseRGBA(color: string): { r: number; g: number; b: number; a: number } | null {
-        const match = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)/);
-        if (!match) return null;
-
-        return {
-            r: parseInt(match[1]),
-            g: parseInt(match[2]),
-            b: parseInt(match[3]),
-            a: match[4] ? parseFloat(match[4]) : 1
-        };
-    }
-
     /**
      * Animate item state transition (active/inactive)
      */
     private animateItemState(itemKey: string, wasActive: boolean, isActive: boolean, _depth: number, treeColor: string): void {
         // Use tree color for active, lightened tree color for inactive
-        const startColor = wasActive ? treeColor : this.lightenColor(treeColor, 0.3);
-        const endColor = isActive ? treeColor : this.lightenColor(treeColor, 0.3);
+        const startColor = wasActive ? treeColor : lightenColor(treeColor, 0.3);
+        const endColor = isActive ? treeColor : lightenColor(treeColor, 0.3);
 
         // Get current color if animation is in progress, otherwise use start color
         const currentColor = this.itemColors.get(itemKey) || startColor;
@@ -408,15 +462,16 @@ export class CanvasRenderer {
         }
 
         const animationId = `color-${itemKey}`;
-        // Use smoother easing and longer duration for active state transitions
+        // Theme transition timing (200ms ease-in-out by default)
+        const { duration, easing } = this.getTiming();
         this.animationManager.animate(
             animationId,
             0,
             1,
-            200, // Increased from 120ms to 200ms for smoother transitions
-            easeInOutCubic, // Use easeInOutCubic for smoother state transitions
+            duration,
+            easing,
             (value) => {
-                const interpolated = this.interpolateColor(currentColor, endColor, value);
+                const interpolated = interpolateColor(currentColor, endColor, value);
                 this.itemColors.set(itemKey, interpolated);
                 this.isDirty = true;
             }
@@ -427,26 +482,19 @@ export class CanvasRenderer {
      * Spawn particles at the center of the active slice
      */
     private spawnParticlesAtActiveSlice(depth: number, index: number, state: MenuState): void {
-        const { innerRadius, ringWidth, startAngle = -Math.PI / 2 } = this.config;
-
         // Find the items at this depth
-        let currentItems = this.rootItems;
+        let currentItems = getVisibleItems(this.rootItems);
         for (let d = 0; d < depth; d++) {
-            const parentIndex = state.activePath[d];
-            currentItems = currentItems[parentIndex]?.children || [];
+            const parent = currentItems[state.activePath[d]];
+            currentItems = parent ? this.stateManager.children.getChildren(parent) : [];
         }
 
-        if (currentItems.length === 0) return;
-
-        const itemCount = currentItems.length;
-        const sliceAngle = TWO_PI / itemCount;
-        const rMid = innerRadius + depth * ringWidth + ringWidth / 2;
-        const thetaMid = startAngle + index * sliceAngle + sliceAngle / 2;
+        const span = this.getSpans(currentItems)[index];
+        if (!span) return;
 
-        const centerX = Math.cos(thetaMid) * rMid;
-        const centerY = Math.sin(thetaMid) * rMid;
+        const { x: centerX, y: centerY } = this.getSliceCenter(depth, span);
 
-        const glowColor = this.getThemeColor('--bagel-glow-color', 'rgba(100, 149, 237, 0.6)');
+        const glowColor = this.readTheme().glow;
         this.particleEmitter.emit(centerX, centerY, glowColor, 8, 2);
     }
 
@@ -454,15 +502,8 @@ export class CanvasRenderer {
         const { width, height } = this.canvas;
 
         // Cache Theme Colors once per frame
-        const theme = {
-            bgActive: this.getThemeColor('--bagel-bg-active', 'rgba(100, 149, 237, 0.8)'),
-            bgInactive: this.getThemeColor('--bagel-bg-inactive', 'rgba(50, 50, 50, 0.6)'),
-            text: this.getThemeColor('--bagel-text-color', '#ffffff'),
-            glow: this.getThemeColor('--bagel-glow-color', 'rgba(100, 149, 237, 0.6)'),
-            font: this.getThemeColor('--bagel-font-family', 'sans-serif'),
-            cursor: this.getThemeColor('--bagel-cursor-color', 'rgba(255, 0, 0, 0.5)'),
-            borderColor: this.getThemeColor('--bagel-border-color', 'rgba(255, 255, 255, 0.2)'),
-        };
+        const theme = this.readTheme();
+        this.frameTheme = theme;
 
         try {
             // Clear the canvas efficiently using the current transform (centered)
@@ -484,7 +525,14 @@ export class CanvasRenderer {
             this.particleEmitter.render(this.ctx);
 
             // 1. Render Rings
+            this.labelTitle = '';
             this.renderRings(state, theme);
+            if (this.isElement(this.canvas) && this.canvas.title !== this.labelTitle) {
+                this.canvas.title = this.labelTitle;
+            }
+
+            // 1b. Recents ring between the hub and the root ring
+            this.renderRecents(state, theme);
 
             // 2. Render Cursor Line (if gliding)
             if (state.status === MenuStatus.GLIDING && this.lastCursor) {
@@ -509,15 +557,15 @@ export class CanvasRenderer {
         }
     }
 
-    private renderRings(state: MenuState, theme: any) {
-        // When closed, only show dead zone (no rings)
-        if (state.status === MenuStatus.CLOSED) {
+    private renderRings(state: MenuState, theme: RenderTheme) {
+        // When closed or marking, only show dead zone (no rings)
+        if (state.status === MenuStatus.CLOSED || state.status === MenuStatus.MARKING) {
             this.renderDeadZone(theme);
             return;
         }
 
         // When open, show rings based on activePath with animations
-        let currentItems = this.rootItems;
+        let currentItems = getVisibleItems(this.rootItems);
         let depth = 0;
         let parentItem: RadialItem | null = null;
 
@@ -535,10 +583,11 @@ export class CanvasRenderer {
         // Draw Nested Rings based on activePath
         for (const activeIndex of state.activePath) {
             const selectedItem = currentItems[activeIndex];
-            if (selectedItem && selectedItem.children && selectedItem.children.length > 0) {
+            const children = selectedItem ? this.stateManager.children.getChildren(selectedItem) : [];
+            if (selectedItem && children.length > 0) {
                 depth++;
                 parentItem = selectedItem;
-                currentItems = selectedItem.children;
+                currentItems = children;
 
                 const ringOpacity = this.ringOpacities.get(depth) ?? 0;
                 const ringScale = this.ringScales.get(depth) ?? 0;
@@ -550,12 +599,125 @@ export class CanvasRenderer {
                     this.ctx.restore();
                 }
             } else {
+                // Lazy branch: show a placeholder ring while loading, or an error slice if it failed
+                const status = selectedItem ? this.stateManager.children.getStatus(selectedItem) : 'idle';
+                if (status === 'loading' || status === 'error') {
+                    const ringOpacity = this.ringOpacities.get(depth + 1) ?? 0;
+                    const ringScale = this.ringScales.get(depth + 1) ?? 0;
+                    if (ringOpacity > 0) {
+                        this.ctx.save();
+                        this.ctx.globalAlpha = ringOpacity;
+                        this.ctx.scale(ringScale, ringScale);
+                        this.drawPendingRing(depth + 1, status === 'error', theme);
+                        this.ctx.restore();
+                    }
+                }
                 break;
             }
         }
     }
 
-    private renderDeadZone(theme: any) {
+    /**
+     * Placeholder ring for children that have not arrived: a spinner while loading,
+     * or a single error slice if loading failed (highlighting the branch again retries)
+     */
+    private drawPendingRing(depth: number, isError: boolean, theme: RenderTheme) {
+        const { rInner, rOuter } = getRingBounds(depth, this.config);
+        const arcStart = getArcStart(this.config);
+        const arcSpan = getArcSpan(this.config);
+
+        const track = new Path2D();
+        track.arc(0, 0, rOuter, arcStart, arcStart + arcSpan, false);
+        track.arc(0, 0, rInner, arcStart + arcSpan, arcStart, true);
+        track.closePath();
+
+        this.ctx.save();
+        this.ctx.fillStyle = isError ? 'rgba(239, 68, 68, 0.6)' : (theme.bgInactive || 'rgba(50, 50, 50, 0.6)');
+        this.ctx.fill(track);
+        this.ctx.strokeStyle = theme.borderColor || 'rgba(255, 255, 255, 0.2)';
+        this.ctx.lineWidth = 0.5;
+        this.ctx.stroke(track);
+
+        if (isError) {
+            const { x, y } = this.getSliceCenter(depth, { start: 0, end: arcSpan });
+            this.ctx.font = `400 12px ${theme.font}`;
+            this.ctx.fillStyle = theme.text;
+            this.ctx.textAlign = 'center';
+            this.ctx.textBaseline = 'middle';
+            this.ctx.fillText('⚠ Failed to load', x, y, this.config.ringWidth * 2);
+        } else {
+            // Spinner sweeps around the ring (or along a partial arc)
+            const progress = (this.lastFrameTime / 1000) % 1;
+            const spinnerStart = arcStart + progress * arcSpan;
+            const rMid = (rInner + rOuter) / 2;
+            this.ctx.beginPath();
+            this.ctx.arc(0, 0, rMid, spinnerStart, spinnerStart + Math.min(arcSpan, Math.PI / 2), false);
+            this.ctx.strokeStyle = theme.accentSecondary;
+            this.ctx.lineWidth = 3;
+            this.ctx.lineCap = 'round';
+            this.ctx.stroke();
+        }
+
+        this.ctx.restore();
+    }
+
+    /**
+     * Last selected leaves (history.recents) as icon slices in the band inside the root ring,
+     * fading in and out with it
+     */
+    private renderRecents(state: MenuState, theme: RenderTheme) {
+        const count = this.config.history?.recents ?? 0;
+        const bounds = getRecentsBounds(this.config);
+        if (count <= 0 || !bounds || state.status === MenuStatus.CLOSED || state.status === MenuStatus.MARKING) return;
+
+        const recents = this.stateManager.getRecents?.(count) ?? [];
+        const opacity = this.ringOpacities.get(0) ?? 0;
+        if (recents.length === 0 || opacity <= 0) return;
+
+        const { rInner, rOuter } = bounds;
+        const rMid = (rInner + rOuter) / 2;
+        const arcStart = getArcStart(this.config);
+        const spans = getSliceSpans(recents.length, getArcSpan(this.config));
+        const gapAngle = (this.config.gap || 0) / rMid;
+        const highlighted = this.stateManager.history?.getHighlighted() ?? -1;
+        const iconSize = Math.min(16, (rOuter - rInner) * 0.7);
+
+        this.ctx.save();
+        this.ctx.globalAlpha = opacity;
+        recents.forEach(({ item }, index) => {
+            const start = arcStart + spans[index].start + gapAngle / 2;
+            const end = arcStart + spans[index].end - gapAngle / 2;
+
+            const slice = new Path2D();
+            slice.arc(0, 0, rOuter, start, end, false);
+            slice.arc(0, 0, rInner, end, start, true);
+            slice.closePath();
+
+            const isHighlighted = index === highlighted;
+            this.ctx.fillStyle = isHighlighted ? theme.bgActive : theme.bgInactive;
+            this.ctx.fill(slice);
+            this.ctx.strokeStyle = isHighlighted ? theme.bgActiveHover : theme.borderColor;
+            this.ctx.lineWidth = isHighlighted ? 2 : 0.5;
+            this.ctx.stroke(slice);
+
+            // The icon, or the first letter of the label when the item has none
+            const theta = (start + end) / 2;
+            const x = Math.cos(theta) * rMid;
+            const y = Math.sin(theta) * rMid;
+            if (item.icon) {
+                this.drawIcon(item.icon, x, y, iconSize, getIconTint(item, theme.text), theme);
+            } else {
+                this.ctx.font = `600 ${CENTER_FONT_SIZE}px ${theme.font}`;
+                this.ctx.fillStyle = theme.text;
+                this.ctx.textAlign = 'center';
+                this.ctx.textBaseline = 'middle';
+                this.ctx.fillText(item.label.charAt(0).toUpperCase(), x, y);
+            }
+        });
+        this.ctx.restore();
+    }
+
+    private renderDeadZone(theme: RenderTheme) {
         const { innerRadius, deadZoneRadius = 0 } = this.config;
         const radius = deadZoneRadius || innerRadius * 0.3; // Default to 30% of innerRadius if not set
 
@@ -573,14 +735,15 @@ export class CanvasRenderer {
     private animateRingAppearance(depth: number) {
         const animationId = `ring-${depth}`;
         const scaleId = `ring-scale-${depth}`;
+        const { duration, easing } = this.getTiming();
 
-        // Animate opacity from 0 to 1 (smoother, longer duration)
+        // Animate opacity from 0 to 1 (rings take 1.5x the theme transition, 300ms by default)
         this.animationManager.animate(
             animationId,
             0,
             1,
-            300, // Increased from 250ms to 300ms
-            easeOutCubic,
+            duration * 1.5,
+            easing,
             (value) => {
                 this.ringOpacities.set(depth, value);
                 this.isDirty = true;
@@ -592,7 +755,7 @@ export class CanvasRenderer {
             scaleId,
             0.8,
             1.0,
-            300, // Increased from 250ms to 300ms
+            duration * 1.5,
             spring,
             (value) => {
                 this.ringScales.set(depth, value);
@@ -606,14 +769,15 @@ export class CanvasRenderer {
         const scaleId = `ring-scale-${depth}`;
         const currentOpacity = this.ringOpacities.get(depth) ?? 1;
         const currentScale = this.ringScales.get(depth) ?? 1;
+        const { duration, easing } = this.getTiming();
 
         // Animate opacity to 0 (smoother closing animation)
         this.animationManager.animate(
             animationId,
             currentOpacity,
             0,
-            200, // Increased from 150ms to 200ms for smoother closing
-            easeOutCubic,
+            duration,
+            easing,
             (value) => {
                 this.ringOpacities.set(depth, value);
                 this.isDirty = true;
@@ -625,8 +789,8 @@ export class CanvasRenderer {
             scaleId,
             currentScale,
             0.8,
-            200, // Increased from 150ms to 200ms for smoother closing
-            easeOutCubic,
+            duration,
+            easing,
             (value) => {
                 this.ringScales.set(depth, value);
                 this.isDirty = true;
@@ -634,109 +798,37 @@ export class CanvasRenderer {
         );
     }
 
-    private getThemeColor(variable: string, fallback: string): string {
-        const style = getComputedStyle(this.canvas);
-        return style.getPropertyValue(variable).trim() || fallback;
-    }
-
-    /**
-     * Get color from palette based on index (wraps around if index exceeds palette size)
-     */
-    private getColorFromPalette(index: number): string {
-        return this.COLOR_PALETTE[index % this.COLOR_PALETTE.length];
-    }
-
-    /**
-     * Lighten a color by a factor (0-1, where 1 is fully lightened to white)
-     */
-    private lightenColor(color: string, factor: number): string {
-        const rgbaMatch = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)/);
-        if (!rgbaMatch) return color;
-
-        const r = parseInt(rgbaMatch[1]);
-        const g = parseInt(rgbaMatch[2]);
-        const b = parseInt(rgbaMatch[3]);
-        const alpha = rgbaMatch[4] ? parseFloat(rgbaMatch[4]) : 1;
-
-        const newR = Math.min(255, Math.round(r + (255 - r) * factor));
-        const newG = Math.min(255, Math.round(g + (255 - g) * factor));
-        const newB = Math.min(255, Math.round(b + (255 - b) * factor));
-
-        return `rgba(${newR}, ${newG}, ${newB}, ${alpha})`;
-    }
-
-    /**
-     * Get tree color for an item based on its depth and parent
-     * Each menu tree (parent and all its children) gets its own distinct color
-     * Priority: item.color > parent.color > palette-based tree color
-     */
-    private getTreeColor(depth: number, parentIndex: number | null, itemIndex: number, state: MenuState, item: RadialItem, parentItem: RadialItem | null): string {
-        // Priority 1: Item has explicit color
-        if (item.color) {
-            return item.color;
-        }
-
-        // Priority 2: For children, check if parent has color
-        if (depth > 0 && parentItem && parentItem.color) {
-            // Use parent's color (lightened based on depth)
-            return this.lightenColor(parentItem.color, depth * 0.15);
-        }
-
-        // Priority 3: Fall back to palette-based tree color system
-        if (depth === 0) {
-            // Root level: assign color from palette based on item index
-            if (!this.treeColors.has(itemIndex)) {
-                const paletteColor = this.getColorFromPalette(itemIndex);
-                this.treeColors.set(itemIndex, paletteColor);
-            }
-            return this.treeColors.get(itemIndex)!;
-        } else {
-            // Child level: use parent's tree color
-            const parentIdx = parentIndex !== null ? parentIndex : (state.activePath[depth - 1] ?? 0);
-
-            // Ensure parent color is assigned
-            if (!this.treeColors.has(parentIdx)) {
-                const paletteColor = this.getColorFromPalette(parentIdx);
-                this.treeColors.set(parentIdx, paletteColor);
-            }
-
-            const parentColor = this.treeColors.get(parentIdx)!;
-            // Lighten based on depth (deeper = lighter)
-            return this.lightenColor(parentColor, depth * 0.15);
-        }
-    }
-
-    private drawRing(items: RadialItem[], depth: number, state: MenuState, theme: any, parentItem: RadialItem | null = null) {
-        const itemCount = items.length;
+    private drawRing(items: RadialItem[], depth: number, state: MenuState, theme: RenderTheme, parentItem: RadialItem | null = null) {
+        const ringKey = this.getRingKey(items);
+        const spans = this.getSpans(items);
 
         // Check if we have paths for this configuration, if not generate them
         // (Lazy generation strategy to handle dynamic sub-menus)
-        if (!this.paths.has(`${depth}-${itemCount}-0`)) {
+        if (!this.paths.has(`${depth}-${ringKey}-0`)) {
             this.generatePathsRecursive(items, depth);
         }
 
         const activeIndexAtDepth = state.activePath[depth];
 
-        // Use theme object instead of calling getThemeColor multiple times
-        const fontString = `12px ${theme.font}`;
+        // Slice under the pointer gets the theme's hover outline
+        const hover = this.lastCursor ? hitTest(this.lastCursor, this.config, items) : null;
+        const hoveredIndex = hover && hover.depth === depth ? hover.index : -1;
 
         items.forEach((item, index) => {
-            const pathKey = `${depth}-${itemCount}-${index}`;
+            const pathKey = `${depth}-${ringKey}-${index}`;
             const path = this.paths.get(pathKey);
 
             if (!path) return;
 
             const isActive = index === activeIndexAtDepth;
+            const isDisabled = isItemDisabled(item);
             const itemKey = `${depth}-${index}`;
 
-            // Determine parent index for tree color calculation
-            const parentIndex = depth > 0 ? (state.activePath[depth - 1] ?? null) : null;
-
             // Get tree color for this item (checks item.color first, then parent.color, then palette)
-            const treeColor = this.getTreeColor(depth, parentIndex, index, state, item, parentItem);
+            const treeColor = getTreeColor(item, index, depth, parentItem, state.activePath[depth - 1] ?? 0);
 
             // For inactive items, lighten the tree color
-            const baseColor = isActive ? treeColor : this.lightenColor(treeColor, 0.3);
+            const baseColor = isActive ? treeColor : lightenColor(treeColor, 0.3);
 
             // Detect state changes and trigger animations
             const wasActive = this.itemStates.get(itemKey) || false;
@@ -751,17 +843,17 @@ export class CanvasRenderer {
             const pulseId = `pulse-${depth}-${index}`;
             const pulseScale = this.animationManager.getValue(pulseId) || 1.0;
 
-            if (isActive) {
+            if (isDisabled) {
+                // Greyed out: neutral fill instead of the tree color, label dimmed below
+                this.ctx.fillStyle = theme.bgInactive || 'rgba(50, 50, 50, 0.6)';
+                this.ctx.fill(path);
+                this.ctx.globalAlpha *= 0.4;
+            } else if (isActive) {
                 // Apply pulse scale transform
                 if (pulseScale !== 1.0) {
                     this.ctx.save();
                     // Calculate center of slice for scaling
-                    const { innerRadius, ringWidth, startAngle = -Math.PI / 2 } = this.config;
-                    const sliceAngle = TWO_PI / itemCount;
-                    const rMid = innerRadius + depth * ringWidth + ringWidth / 2;
-                    const thetaMid = startAngle + index * sliceAngle + sliceAngle / 2;
-                    const centerX = Math.cos(thetaMid) * rMid;
-                    const centerY = Math.sin(thetaMid) * rMid;
+                    const { x: centerX, y: centerY } = this.getSliceCenter(depth, spans[index]);
                     this.ctx.translate(centerX, centerY);
                     this.ctx.scale(pulseScale, pulseScale);
                     this.ctx.translate(-centerX, -centerY);
@@ -793,51 +885,239 @@ export class CanvasRenderer {
             this.ctx.lineWidth = 0.5; // Reduced from 1 to 0.5 for lighter borders
             this.ctx.stroke(path);
 
+            if (index === hoveredIndex) {
+                this.ctx.strokeStyle = isActive ? theme.bgActiveHover : theme.bgInactiveHover;
+                this.ctx.lineWidth = 2;
+                this.ctx.stroke(path);
+            }
+
             // Draw Label
-            this.drawLabel(item, depth, index, itemCount, isActive, theme, fontString);
+            this.drawLabel(item, depth, spans[index], isActive, theme, `${depth}-${ringKey}-${index}`);
+
+            // Checkmark / selected dot for stateful items
+            if (isItemCheckable(item)) {
+                this.drawCheckIndicator(item, depth, spans[index], theme);
+            }
+
+            // Counts, dots and warning markers at the outer edge
+            const badge = this.stateManager.badges.get(item);
+            if (badge) {
+                this.drawBadge(badge, depth, spans[index], theme);
+            }
+
+            // Keyboard accelerator; number keys act on the ring holding the highlight
+            if (this.config.labels?.shortcutHints) {
+                const focusDepth = Math.max(0, state.activePath.length - 1);
+                const hint = getShortcutHint(item, depth === focusDepth ? index : -1);
+                if (hint) this.drawShortcutHint(hint, depth, spans[index], isActive, theme);
+            }
 
             this.ctx.restore();
         });
     }
 
-    private drawLabel(item: RadialItem, depth: number, index: number, itemCount: number, isActive: boolean, theme: any, font: string) {
-        const { innerRadius, ringWidth, startAngle = -Math.PI / 2 } = this.config;
-        const sliceAngle = TWO_PI / itemCount;
+    private drawLabel(item: RadialItem, depth: number, span: SliceSpan, isActive: boolean, theme: RenderTheme, sliceKey: string) {
+        const color = isActive ? '#ffffff' : theme.text;
+        const iconLayout = getIconLayout(item, this.config);
+        const tint = iconLayout ? getIconTint(item, color) : null;
 
-        const rInner = innerRadius + depth * ringWidth;
-        const rOuter = rInner + ringWidth;
-        const rMid = (rInner + rOuter) / 2;
-
-        const thetaMid = startAngle + index * sliceAngle + sliceAngle / 2;
+        if (iconLayout && !iconLayout.showLabel) {
+            const { x, y } = this.getSliceCenter(depth, span);
+            this.drawIcon(item.icon!, x, y, iconLayout.size, tint, theme);
+            return;
+        }
 
-        const x = Math.cos(thetaMid) * rMid;
-        const y = Math.sin(thetaMid) * rMid;
+        const weight = isActive ? 600 : 400; // Bold for active
+        const letterSpacing = isActive ? '0.5px' : '0px';
+        const layout = this.getLabelLayout(item, depth, span, weight, letterSpacing, iconLayout?.size ?? 0, theme, sliceKey);
+        if (iconLayout && layout.icon) {
+            this.drawIcon(item.icon!, layout.icon.x, layout.icon.y, iconLayout.size, tint, theme);
+        }
+        if (isActive && layout.truncated) this.labelTitle = item.label;
 
         // Enhanced typography for active items
+        this.ctx.font = `${weight} ${layout.fontSize}px ${theme.font}`;
+        this.ctx.fillStyle = color;
         if (isActive) {
-            this.ctx.font = `600 ${font}`; // Bold for active
-            this.ctx.fillStyle = '#ffffff';
             // Text shadow for readability
-            this.ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+            this.ctx.shadowColor = theme.shadowColor;
             this.ctx.shadowBlur = 2;
         } else {
-            this.ctx.font = `400 ${font}`; // Normal weight for inactive
-            this.ctx.fillStyle = theme.text;
             this.ctx.shadowBlur = 0;
         }
 
         this.ctx.textAlign = 'center';
         this.ctx.textBaseline = 'middle';
-        this.ctx.letterSpacing = isActive ? '0.5px' : '0px';
+        this.ctx.letterSpacing = letterSpacing;
 
-        const maxLabelWidth = ringWidth * 0.8;
-        this.ctx.fillText(item.label, x, y, maxLabelWidth);
+        layout.lines.forEach(line => {
+            if (layout.orientation === 'curved') {
+                this.drawCurvedLine(line, layout);
+            } else if (layout.orientation === 'radial') {
+                this.ctx.save();
+                this.ctx.translate(line.x, line.y);
+                this.ctx.rotate(line.rotation);
+                this.ctx.fillText(line.text, 0, 0);
+                this.ctx.restore();
+            } else {
+                this.ctx.fillText(line.text, line.x, line.y);
+            }
+        });
 
         // Reset shadow
         this.ctx.shadowBlur = 0;
     }
 
-    private renderCursorLine(theme: any) {
+    /**
+     * Fits the label once per slice and font weight; measuring every frame would be wasteful
+     */
+    private getLabelLayout(item: RadialItem, depth: number, span: SliceSpan, weight: number, letterSpacing: string, iconSize: number, theme: RenderTheme, sliceKey: string): LabelLayout {
+        const key = `${sliceKey}|${weight}|${iconSize}|${theme.font}|${item.label}`;
+        let layout = this.labelLayouts.get(key);
+        if (!layout) {
+            this.ctx.save();
+            const measure = createCanvasMeasure(this.ctx, weight, theme.font, letterSpacing);
+            layout = layoutLabel(item.label, this.getSliceFrame(depth, span, iconSize), this.config.labels ?? {}, measure);
+            this.ctx.restore();
+            this.labelLayouts.set(key, layout);
+        }
+        return layout;
+    }
+
+    /**
+     * Draws a line glyph by glyph along its radius, centered on the slice
+     */
+    private drawCurvedLine(line: LabelLine, layout: LabelLayout) {
+        const { radius } = line;
+        const direction = layout.flipped ? -1 : 1;
+        const chars = Array.from(line.text);
+        const widths = chars.map(char => this.ctx.measureText(char).width);
+        const total = widths.reduce((sum, width) => sum + width, 0);
+
+        let theta = layout.thetaMid - direction * total / radius / 2;
+        chars.forEach((char, i) => {
+            const half = widths[i] / radius / 2;
+            theta += direction * half;
+            this.ctx.save();
+            this.ctx.translate(Math.cos(theta) * radius, Math.sin(theta) * radius);
+            this.ctx.rotate(theta + direction * Math.PI / 2);
+            this.ctx.fillText(char, 0, 0);
+            this.ctx.restore();
+            theta += direction * half;
+        });
+    }
+
+    /**
+     * Blits an icon from the atlas, centered on (x, y). Images still decoding are skipped.
+     */
+    private drawIcon(icon: string, x: number, y: number, size: number, tint: string | null, theme: RenderTheme) {
+        const entry = this.icons.get(icon, size, this.dpr, tint, theme.font);
+        if (!entry) return;
+
+        this.ctx.shadowBlur = 0;
+        this.ctx.drawImage(entry.source, entry.x, entry.y, entry.size, entry.size, x - size / 2, y - size / 2, size, size);
+    }
+
+    private drawBadge(badge: RadialItemBadge, depth: number, span: SliceSpan, theme: RenderTheme) {
+        const font = `700 ${BADGE_FONT_SIZE}px ${theme.font}`;
+        this.ctx.font = font;
+        this.ctx.letterSpacing = '0px';
+        const shape = getBadgeShape(badge, this.getSliceFrame(depth, span, 0), text => this.ctx.measureText(text).width);
+
+        this.ctx.shadowBlur = 0;
+        this.ctx.fillStyle = shape.color;
+        this.ctx.beginPath();
+        this.ctx.roundRect(shape.x - shape.width / 2, shape.y - shape.height / 2, shape.width, shape.height, shape.height / 2);
+        this.ctx.fill();
+
+        if (shape.text) {
+            this.ctx.fillStyle = BADGE_TEXT_COLOR;
+            this.ctx.textAlign = 'center';
+            this.ctx.textBaseline = 'middle';
+            this.ctx.fillText(shape.text, shape.x, shape.y + 0.5);
+        }
+    }
+
+    /**
+     * Draws an item's shortcut (or ring number) in the slice's inner corner
+     */
+    private drawShortcutHint(hint: string, depth: number, span: SliceSpan, isActive: boolean, theme: RenderTheme) {
+        this.ctx.font = `600 ${HINT_FONT_SIZE}px ${theme.font}`;
+        this.ctx.letterSpacing = '0px';
+        const { x, y } = getHintPosition(this.getSliceFrame(depth, span, 0), this.ctx.measureText(hint).width);
+
+        this.ctx.shadowBlur = 0;
+        this.ctx.globalAlpha *= isActive ? 0.9 : 0.6;
+        this.ctx.fillStyle = isActive ? '#ffffff' : theme.text;
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.fillText(hint, x, y);
+    }
+
+    /**
+     * Draws the checked state of toggle/checkbox/radio items between the label and the outer edge
+     */
+    private drawCheckIndicator(item: RadialItem, depth: number, span: SliceSpan, theme: RenderTheme) {
+        const { rInner, rOuter } = getRingBounds(depth, this.config);
+        const thetaMid = getArcStart(this.config) + (span.start + span.end) / 2;
+        const r = rInner + (rOuter - rInner) * 0.82;
+        const x = Math.cos(thetaMid) * r;
+        const y = Math.sin(thetaMid) * r;
+        const checked = this.stateManager.isChecked(item);
+        const size = 5;
+
+        this.ctx.save();
+        this.ctx.strokeStyle = theme.text;
+        this.ctx.fillStyle = theme.text;
+        this.ctx.lineWidth = 1.2;
+        this.ctx.shadowBlur = 0;
+
+        if (item.type === 'radio') {
+            // Ring with a selected dot
+            this.ctx.beginPath();
+            this.ctx.arc(x, y, size, 0, TWO_PI);
+            this.ctx.stroke();
+            if (checked) {
+                this.ctx.fillStyle = theme.accentPrimary;
+                this.ctx.beginPath();
+                this.ctx.arc(x, y, size * 0.5, 0, TWO_PI);
+                this.ctx.fill();
+            }
+        } else if (item.type === 'checkbox') {
+            // Box with a checkmark
+            this.ctx.strokeRect(x - size, y - size, size * 2, size * 2);
+            if (checked) {
+                this.ctx.beginPath();
+                this.ctx.moveTo(x - size * 0.6, y);
+                this.ctx.lineTo(x - size * 0.1, y + size * 0.5);
+                this.ctx.lineTo(x + size * 0.6, y - size * 0.5);
+                this.ctx.lineWidth = 1.6;
+                this.ctx.strokeStyle = theme.accentPrimary;
+                this.ctx.stroke();
+            }
+        } else {
+            // Toggle: pill with the knob on the right when on
+            const width = size * 3;
+            const pill = new Path2D();
+            pill.arc(x - width / 2 + size, y, size, Math.PI / 2, Math.PI * 1.5);
+            pill.arc(x + width / 2 - size, y, size, -Math.PI / 2, Math.PI / 2);
+            pill.closePath();
+            if (checked) {
+                this.ctx.fillStyle = theme.accentPrimary;
+                this.ctx.globalAlpha *= 0.5;
+                this.ctx.fill(pill);
+                this.ctx.globalAlpha *= 2;
+            }
+            this.ctx.stroke(pill);
+            this.ctx.beginPath();
+            this.ctx.arc(checked ? x + width / 2 - size : x - width / 2 + size, y, size * 0.6, 0, TWO_PI);
+            this.ctx.fill();
+        }
+
+        this.ctx.restore();
+    }
+
+    private renderCursorLine(theme: RenderTheme) {
         if (!this.lastCursor) return;
 
         // ...
@@ -852,23 +1132,40 @@ export class CanvasRenderer {
         this.ctx.restore();
     }
 
-    private renderCenter(state: MenuState, _theme: any) {
-        // Draw something in the dead zone
+    private renderCenter(state: MenuState, theme: RenderTheme) {
+        // Draw something in the dead zone, in the active background while a path is highlighted
+        const radius = getCenterRadius(this.config);
         this.ctx.save();
-        this.ctx.fillStyle = '#333';
+        this.ctx.fillStyle = state.activePath.length > 0 ? theme.bgActive : theme.bgInactive;
         this.ctx.beginPath();
-        this.ctx.arc(0, 0, this.config.deadZoneRadius || 20, 0, TWO_PI);
+        this.ctx.arc(0, 0, radius, 0, TWO_PI);
         this.ctx.fill();
 
-        // Breadcrumb or Logo
-        this.ctx.fillStyle = '#fff';
-        this.ctx.font = '10px sans-serif';
-        this.ctx.textAlign = 'center';
-        this.ctx.textBaseline = 'middle';
+        const center = this.config.center;
+        const path = resolveCenterPath(this.rootItems, state.activePath, this.stateManager);
+        if (center?.render) {
+            // The callback gets a clean context, whatever it leaves set is discarded by restore()
+            this.ctx.save();
+            center.render(this.ctx, { radius, path, highlighted: path[path.length - 1] ?? null });
+            this.ctx.restore();
+            this.ctx.restore();
+            return;
+        }
+
+        this.ctx.font = `${CENTER_FONT_SIZE}px ${theme.font}`;
+        this.ctx.letterSpacing = '0px';
+        const measure: MeasureText = (text) => this.ctx.measureText(text).width;
+        const layout = layoutCenter(path, radius, center, measure);
 
-        // Simple breadcrumb logic
-        const text = state.activePath.length > 0 ? '>' : 'MENU';
-        this.ctx.fillText(text, 0, 0);
+        if (layout?.icon) {
+            this.drawIcon(layout.icon, 0, layout.iconY, layout.iconSize, getIconTint(path[path.length - 1], theme.text), theme);
+        }
+        if (layout?.text) {
+            this.ctx.fillStyle = theme.text;
+            this.ctx.textAlign = 'center';
+            this.ctx.textBaseline = 'middle';
+            this.ctx.fillText(layout.text, 0, layout.textY);
+        }
 
         this.ctx.restore();
     }
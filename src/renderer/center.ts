@@ -0,0 +1,79 @@
+import { CenterConfig, RadialItem } from '../types';
+import { getVisibleItems } from '../core/items';
+import { MeasureText, truncateText } from './labels';
+import { RenderStateSource } from './types';
+
+export const CENTER_FONT_SIZE = 10;
+const IDLE_TEXT = 'MENU';
+const SEPARATOR = ' › ';
+const ELLIPSIS = '…';
+
+export interface CenterLayout {
+    text: string | null; // Fitted to the disc
+    textY: number;
+    icon: string | null;
+    iconY: number;
+    iconSize: number;
+}
+
+/**
+ * Items of the active path, resolved the way the rings are drawn
+ */
+export function resolveCenterPath(rootItems: RadialItem[], activePath: number[], state: RenderStateSource): RadialItem[] {
+    const path: RadialItem[] = [];
+    let items = getVisibleItems(rootItems);
+    for (const index of activePath) {
+        const item = items[index];
+        if (!item) break;
+        path.push(item);
+        items = state.children.getChildren(item);
+    }
+    return path;
+}
+
+/**
+ * Breadcrumb that fits the width: leading levels are dropped behind an ellipsis first,
+ * then the remaining text is truncated
+ */
+function fitBreadcrumb(path: RadialItem[], width: number, measure: MeasureText): string {
+    const labels = path.map(item => item.label);
+    let text = labels.join(SEPARATOR);
+    for (let start = 1; start < labels.length && measure(text, CENTER_FONT_SIZE) > width; start++) {
+        text = ELLIPSIS + SEPARATOR + labels.slice(start).join(SEPARATOR);
+    }
+    return truncateText(text, width, CENTER_FONT_SIZE, measure);
+}
+
+/**
+ * What the built-in hub shows for a path, or null for a plain disc. Offsets are from the center.
+ */
+export function layoutCenter(path: RadialItem[], radius: number, config: CenterConfig = {}, measure: MeasureText): CenterLayout | null {
+    const content = config.content ?? 'label';
+    if (content === 'none') return null;
+
+    const width = radius * 1.6;
+    const empty: CenterLayout = { text: null, textY: 0, icon: null, iconY: 0, iconSize: 0 };
+    if (path.length === 0) return { ...empty, text: IDLE_TEXT };
+
+    if (content === 'breadcrumb') {
+        return { ...empty, text: fitBreadcrumb(path, width, measure) };
+    }
+
+    // Icon above the label when the hub has room for both, otherwise the icon alone
+    const item = path[path.length - 1];
+    const text = truncateText(item.label, width, CENTER_FONT_SIZE, measure);
+    if (!item.icon) return { ...empty, text };
+
+    const iconSize = Math.min(18, radius * 0.7);
+    if (radius < 28) return { ...empty, icon: item.icon, iconSize };
+
+    const gap = 2;
+    const top = -(iconSize + gap + CENTER_FONT_SIZE) / 2;
+    return {
+        text,
+        textY: top + iconSize + gap + CENTER_FONT_SIZE / 2,
+        icon: item.icon,
+        iconY: top + iconSize / 2,
+        iconSize
+    };
+}
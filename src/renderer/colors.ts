@@ -0,0 +1,378 @@
+import { RadialItem } from '../types';
+
+/**
+ * Colors for root items without an explicit color; each menu tree gets one
+ */
+export const COLOR_PALETTE = [
+    'rgba(59, 130, 246, 0.8)',   // Blue
+    'rgba(34, 197, 94, 0.8)',    // Green
+    'rgba(168, 85, 247, 0.8)',   // Purple
+    'rgba(249, 115, 22, 0.8)',   // Orange
+    'rgba(20, 184, 166, 0.8)',   // Teal
+    'rgba(236, 72, 153, 0.8)',   // Pink
+    'rgba(239, 68, 68, 0.8)',    // Red
+    'rgba(251, 191, 36, 0.8)',   // Yellow
+];
+
+export interface RGBA {
+    r: number; // sRGB channels, 0-255
+    g: number;
+    b: number;
+    a: number; // 0-1
+}
+
+interface OKLCH {
+    l: number; // 0-1
+    c: number;
+    h: number; // degrees
+    alpha: number;
+}
+
+const parsedColors: Map<string, RGBA | null> = new Map();
+const MAX_CACHED_COLORS = 512; // Animations produce a new string per frame
+
+let resolveContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Parses any CSS color: hex, rgb(), hsl(), hwb(), lab(), lch(), oklab() and oklch() directly,
+ * everything else (named colors, color-mix(), color()) by letting a canvas resolve it.
+ * Returns null for values that are not colors.
+ */
+export function parseColor(color: string): RGBA | null {
+    const key = color.trim().toLowerCase();
+    if (parsedColors.has(key)) return parsedColors.get(key)!;
+
+    const parsed = parseColorFunction(key) ?? resolveWithCanvas(key);
+    if (parsedColors.size >= MAX_CACHED_COLORS) parsedColors.clear();
+    parsedColors.set(key, parsed);
+    return parsed;
+}
+
+export function formatColor({ r, g, b, a }: RGBA): string {
+    const alpha = Math.round(a * 1000) / 1000;
+    return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${alpha})`;
+}
+
+/**
+ * Interpolates two colors in OKLCH (shorter hue arc), so midpoints keep their lightness and saturation
+ */
+export function interpolateColor(color1: string, color2: string, t: number): string {
+    const from = parseColor(color1);
+    const to = parseColor(color2);
+    if (!from || !to) return color1;
+
+    const a = rgbToOklch(from);
+    const b = rgbToOklch(to);
+
+    // Achromatic ends (greys) take the other end's hue
+    const hueFrom = a.c < 1e-4 ? b.h : a.h;
+    const hueTo = b.c < 1e-4 ? a.h : b.h;
+    let delta = hueTo - hueFrom;
+    if (delta > 180) delta -= 360;
+    if (delta < -180) delta += 360;
+
+    return formatColor(oklchToRgb({
+        l: a.l + (b.l - a.l) * t,
+        c: a.c + (b.c - a.c) * t,
+        h: hueFrom + delta * t,
+        alpha: a.alpha + (b.alpha - a.alpha) * t,
+    }));
+}
+
+/**
+ * Lightens a color by a factor (0-1, where 1 is white) in OKLCH: lightness moves towards white
+ * and chroma fades with it, so every hue brightens by the same perceived amount
+ */
+export function lightenColor(color: string, factor: number): string {
+    const rgba = parseColor(color);
+    if (!rgba) return color;
+
+    const { l, c, h, alpha } = rgbToOklch(rgba);
+    const amount = Math.min(1, Math.max(0, factor));
+    return formatColor(oklchToRgb({ l: l + (1 - l) * amount, c: c * (1 - amount), h, alpha }));
+}
+
+/**
+ * Darkens a color by a factor (0-1, where 1 is black) in OKLCH
+ */
+export function darkenColor(color: string, factor: number): string {
+    const rgba = parseColor(color);
+    if (!rgba) return color;
+
+    const { l, c, h, alpha } = rgbToOklch(rgba);
+    const amount = Math.min(1, Math.max(0, factor));
+    return formatColor(oklchToRgb({ l: l * (1 - amount), c: c * (1 - amount), h, alpha }));
+}
+
+// --- Parsing ---
+
+function parseColorFunction(value: string): RGBA | null {
+    if (value === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+    if (value.startsWith('#')) return parseHex(value);
+
+    const match = value.match(/^(rgba?|hsla?|hwb|lab|lch|oklab|oklch)\((.*)\)$/);
+    if (!match) return null;
+
+    // Both the legacy comma syntax and the modern "r g b / a" syntax
+    const parts = match[2].replace(/\s*\/\s*/, ' / ').split(/[\s,]+/).filter(Boolean);
+    const slash = parts.indexOf('/');
+    const channels = slash === -1 ? parts.slice(0, 3) : parts.slice(0, slash);
+    const alphaPart = slash === -1 ? parts[3] : parts[slash + 1];
+    if (channels.length !== 3 || channels.includes('none')) return null;
+
+    const alpha = alphaPart === undefined ? 1 : parseNumber(alphaPart, 1);
+    if (alpha === null) return null;
+
+    const fn = match[1];
+    if (fn === 'rgb' || fn === 'rgba') {
+        const [r, g, b] = channels.map(channel => parseNumber(channel, 255));
+        if (r === null || g === null || b === null) return null;
+        return clampRgba({ r, g, b, a: alpha });
+    }
+    if (fn === 'hsl' || fn === 'hsla') {
+        const h = parseHue(channels[0]);
+        const sat = parseNumber(channels[1], 100);
+        const light = parseNumber(channels[2], 100);
+        if (h === null || sat === null || light === null) return null;
+        return clampRgba({ ...hslToRgb(h, sat / 100, light / 100), a: alpha });
+    }
+    if (fn === 'hwb') {
+        const h = parseHue(channels[0]);
+        const white = parseNumber(channels[1], 100);
+        const black = parseNumber(channels[2], 100);
+        if (h === null || white === null || black === null) return null;
+        return clampRgba({ ...hwbToRgb(h, white / 100, black / 100), a: alpha });
+    }
+
+    // Lab family: lightness percentages are 0-100 for CIE and 0-1 for OK
+    const isOk = fn.startsWith('ok');
+    const l = parseNumber(channels[0], isOk ? 1 : 100);
+    if (l === null) return null;
+
+    if (fn === 'lch' || fn === 'oklch') {
+        const c = parseNumber(channels[1], isOk ? 0.4 : 150);
+        const h = parseHue(channels[2]);
+        if (c === null || h === null) return null;
+        if (isOk) return oklchToRgb({ l, c, h, alpha });
+        const rad = h * Math.PI / 180;
+        return clampRgba({ ...labToRgb(l, c * Math.cos(rad), c * Math.sin(rad)), a: alpha });
+    }
+
+    const a = parseNumber(channels[1], isOk ? 0.4 : 125);
+    const b = parseNumber(channels[2], isOk ? 0.4 : 125);
+    if (a === null || b === null) return null;
+    if (isOk) return clampRgba({ ...linearToRgb(oklabToLinear(l, a, b)), a: alpha });
+    return clampRgba({ ...labToRgb(l, a, b), a: alpha });
+}
+
+function parseHex(value: string): RGBA | null {
+    const hex = value.slice(1);
+    if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) return null;
+
+    const digits = hex.length <= 4 ? hex.split('').map(digit => digit + digit) : hex.match(/../g)!;
+    const [r, g, b, a = 'ff'] = digits;
+    return { r: parseInt(r, 16), g: parseInt(g, 16), b: parseInt(b, 16), a: parseInt(a, 16) / 255 };
+}
+
+/**
+ * A number, or a percentage of `percentScale`
+ */
+function parseNumber(value: string, percentScale: number): number | null {
+    const percent = value.endsWith('%');
+    const number = parseFloat(percent ? value.slice(0, -1) : value);
+    if (isNaN(number)) return null;
+    return percent ? number / 100 * percentScale : number;
+}
+
+function parseHue(value: string): number | null {
+    const match = value.match(/^(-?[\d.]+(?:e-?\d+)?)(deg|rad|grad|turn)?$/);
+    if (!match) return null;
+    const number = parseFloat(match[1]);
+    switch (match[2]) {
+        case 'rad': return number * 180 / Math.PI;
+        case 'grad': return number * 0.9;
+        case 'turn': return number * 360;
+        default: return number;
+    }
+}
+
+/**
+ * Named colors, color-mix(), color() and anything newer: the canvas knows them all
+ */
+function resolveWithCanvas(value: string): RGBA | null {
+    if (resolveContext === undefined) {
+        const canvas = typeof OffscreenCanvas !== 'undefined'
+            ? new OffscreenCanvas(1, 1)
+            : typeof document !== 'undefined' ? document.createElement('canvas') : null;
+        resolveContext = canvas
+            ? canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | null
+            : null;
+    }
+    const ctx = resolveContext;
+    if (!ctx) return null;
+
+    // An invalid color leaves fillStyle untouched: try two sentinels so a color equal to one still resolves
+    ctx.fillStyle = '#000000';
+    ctx.fillStyle = value;
+    const first = ctx.fillStyle;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillStyle = value;
+    if (first === '#000000' && ctx.fillStyle === '#ffffff') return null;
+
+    ctx.clearRect(0, 0, 1, 1);
+    ctx.fillRect(0, 0, 1, 1);
+    const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data;
+    if (a === 0) return { r: 0, g: 0, b: 0, a: 0 };
+    // Pixels are stored premultiplied and come back un-premultiplied, close enough for shading
+    return { r, g, b, a: a / 255 };
+}
+
+// --- Conversions ---
+
+function clampRgba({ r, g, b, a }: RGBA): RGBA {
+    const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+    return { r: clamp(r, 255), g: clamp(g, 255), b: clamp(b, 255), a: clamp(a, 1) };
+}
+
+function hslToRgb(h: number, s: number, l: number): { r: number; g: number; b: number } {
+    const hue = ((h % 360) + 360) % 360;
+    const f = (n: number) => {
+        const k = (n + hue / 30) % 12;
+        return (l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+    };
+    return { r: f(0), g: f(8), b: f(4) };
+}
+
+function hwbToRgb(h: number, white: number, black: number): { r: number; g: number; b: number } {
+    if (white + black >= 1) {
+        const grey = white / (white + black) * 255;
+        return { r: grey, g: grey, b: grey };
+    }
+    const { r, g, b } = hslToRgb(h, 1, 0.5);
+    const scale = (channel: number) => (channel / 255 * (1 - white - black) + white) * 255;
+    return { r: scale(r), g: scale(g), b: scale(b) };
+}
+
+type Vector3 = [number, number, number];
+
+function toLinear(channel: number): number {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(channel: number): number {
+    const c = channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+    return c * 255;
+}
+
+function linearToRgb([r, g, b]: Vector3): { r: number; g: number; b: number } {
+    return { r: fromLinear(r), g: fromLinear(g), b: fromLinear(b) };
+}
+
+function oklabToLinear(l: number, a: number, b: number): Vector3 {
+    const l_ = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3);
+    const m_ = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3);
+    const s_ = Math.pow(l - 0.0894841775 * a - 1.2914855480 * b, 3);
+    return [
+        4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_,
+        -1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_,
+        -0.0041960863 * l_ - 0.7034186147 * m_ + 1.7076147010 * s_,
+    ];
+}
+
+function rgbToOklch({ r, g, b, a }: RGBA): OKLCH {
+    const lr = toLinear(r);
+    const lg = toLinear(g);
+    const lb = toLinear(b);
+
+    const l_ = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+    const m_ = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+    const s_ = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+    const l = 0.2104542553 * l_ + 0.7936177850 * m_ - 0.0040720468 * s_;
+    const labA = 1.9779984951 * l_ - 2.4285922050 * m_ + 0.4505937099 * s_;
+    const labB = 0.0259040371 * l_ + 0.7827717662 * m_ - 0.8086757660 * s_;
+
+    const h = Math.atan2(labB, labA) * 180 / Math.PI;
+    return { l, c: Math.sqrt(labA * labA + labB * labB), h: h < 0 ? h + 360 : h, alpha: a };
+}
+
+/**
+ * Back to sRGB. Out-of-gamut colors keep their lightness and hue and lose chroma until they fit.
+ */
+function oklchToRgb({ l, c, h, alpha }: OKLCH): RGBA {
+    const lightness = Math.min(1, Math.max(0, l));
+    const rad = h * Math.PI / 180;
+    const toLinearRgb = (chroma: number) => oklabToLinear(lightness, chroma * Math.cos(rad), chroma * Math.sin(rad));
+    const inGamut = (rgb: Vector3) => rgb.every(channel => channel >= -1e-4 && channel <= 1 + 1e-4);
+
+    let linear = toLinearRgb(c);
+    if (!inGamut(linear)) {
+        let low = 0;
+        let high = c;
+        for (let i = 0; i < 20; i++) {
+            const mid = (low + high) / 2;
+            if (inGamut(toLinearRgb(mid))) low = mid;
+            else high = mid;
+        }
+        linear = toLinearRgb(low);
+    }
+
+    return clampRgba({ ...linearToRgb(linear), a: alpha });
+}
+
+/**
+ * CIE Lab (D50) to sRGB, through XYZ with Bradford adaptation to D65
+ */
+function labToRgb(l: number, a: number, b: number): { r: number; g: number; b: number } {
+    const kappa = 24389 / 27;
+    const epsilon = 216 / 24389;
+    const fy = (l + 16) / 116;
+    const fx = fy + a / 500;
+    const fz = fy - b / 200;
+
+    const x = (Math.pow(fx, 3) > epsilon ? Math.pow(fx, 3) : (116 * fx - 16) / kappa) * 0.3457 / 0.3585;
+    const y = l > kappa * epsilon ? Math.pow(fy, 3) : l / kappa;
+    const z = (Math.pow(fz, 3) > epsilon ? Math.pow(fz, 3) : (116 * fz - 16) / kappa) * (1 - 0.3457 - 0.3585) / 0.3585;
+
+    // D50 -> D65
+    const x65 = 0.9554734527042182 * x - 0.023098536874261423 * y + 0.0632593086610217 * z;
+    const y65 = -0.028369706963208136 * x + 1.0099954580058226 * y + 0.021041398966943008 * z;
+    const z65 = 0.012314001688319899 * x - 0.020507696433639964 * y + 1.3303659366080753 * z;
+
+    return linearToRgb([
+        3.2409699419045226 * x65 - 1.537383177570094 * y65 - 0.4986107602930034 * z65,
+        -0.9692436362808796 * x65 + 1.8759675015077202 * y65 + 0.04155505740717559 * z65,
+        0.05563007969699366 * x65 - 0.20397695888897652 * y65 + 1.0569715142428786 * z65,
+    ].map(channel => Math.min(1, Math.max(0, channel))) as Vector3);
+}
+
+/**
+ * Get tree color for an item based on its depth and parent
+ * Each menu tree (parent and all its children) gets its own distinct color
+ * Priority: item.color > parent.color > palette-based tree color
+ * @param parentIndex - Index of the parent in its ring (ignored at depth 0)
+ */
+export function getTreeColor(
+    item: RadialItem,
+    itemIndex: number,
+    depth: number,
+    parentItem: RadialItem | null,
+    parentIndex: number
+): string {
+    // Priority 1: Item has explicit color
+    if (item.color) {
+        return item.color;
+    }
+
+    // Priority 2: For children, use the parent's color (lightened based on depth)
+    if (depth > 0 && parentItem && parentItem.color) {
+        return lightenColor(parentItem.color, depth * 0.15);
+    }
+
+    // Priority 3: Root level picks from the palette by index, children lighten their parent's tree color
+    if (depth === 0) {
+        return COLOR_PALETTE[itemIndex % COLOR_PALETTE.length];
+    }
+    return lightenColor(COLOR_PALETTE[parentIndex % COLOR_PALETTE.length], depth * 0.15);
+}
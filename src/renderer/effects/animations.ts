@@ -43,6 +43,118 @@ export function spring(t: number): number {
   return 1 - Math.cos(t * Math.PI * 0.5) * (1 - t);
 }
 
+/**
+ * CSS cubic-bezier() timing function: solves x(t) = progress for t, then returns y(t)
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  const sample = (a1: number, a2: number, t: number) =>
+    3 * a1 * (1 - t) * (1 - t) * t + 3 * a2 * (1 - t) * t * t + t * t * t;
+  const slope = (a1: number, a2: number, t: number) =>
+    3 * a1 * (1 - t) * (1 - t) + 6 * (a2 - a1) * (1 - t) * t + 3 * (1 - a2) * t * t;
+
+  return (x: number) => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    // Newton's method converges in a few steps for most curves
+    let t = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sample(x1, x2, t) - x;
+      if (Math.abs(error) < 1e-6) return sample(y1, y2, t);
+      const derivative = slope(x1, x2, t);
+      if (Math.abs(derivative) < 1e-6) break;
+      t -= error / derivative;
+    }
+
+    // Bisection for flat spots
+    let low = 0;
+    let high = 1;
+    t = x;
+    for (let i = 0; i < 30; i++) {
+      const value = sample(x1, x2, t);
+      if (Math.abs(value - x) < 1e-6) break;
+      if (value < x) low = t;
+      else high = t;
+      t = (low + high) / 2;
+    }
+    return sample(y1, y2, t);
+  };
+}
+
+export type StepPosition = 'jump-start' | 'jump-end' | 'jump-none' | 'jump-both' | 'start' | 'end';
+
+/**
+ * CSS steps() timing function
+ */
+export function steps(count: number, position: StepPosition = 'jump-end'): EasingFunction {
+  const jumpsAtStart = position === 'jump-start' || position === 'start' || position === 'jump-both';
+  const jumps = position === 'jump-none' ? count - 1 : position === 'jump-both' ? count + 1 : count;
+
+  return (t: number) => {
+    if (t >= 1) return 1;
+    if (t <= 0) return jumpsAtStart ? 1 / jumps : 0;
+    const step = Math.floor(t * count) + (jumpsAtStart ? 1 : 0);
+    return Math.min(1, step / jumps);
+  };
+}
+
+const KEYWORD_EASINGS: Record<string, EasingFunction> = {
+  linear,
+  ease: cubicBezier(0.25, 0.1, 0.25, 1),
+  'ease-in': cubicBezier(0.42, 0, 1, 1),
+  'ease-out': cubicBezier(0, 0, 0.58, 1),
+  'ease-in-out': cubicBezier(0.42, 0, 0.58, 1),
+  'step-start': steps(1, 'jump-start'),
+  'step-end': steps(1, 'jump-end'),
+};
+
+const parsedEasings: Map<string, EasingFunction | null> = new Map();
+
+/**
+ * Parses a CSS easing (keyword, cubic-bezier() or steps()) into an EasingFunction.
+ * Unknown or invalid values give the fallback.
+ */
+export function parseEasing(value: string, fallback: EasingFunction = easeOutCubic): EasingFunction {
+  const key = value.trim().toLowerCase();
+  if (!parsedEasings.has(key)) parsedEasings.set(key, parseEasingValue(key));
+  return parsedEasings.get(key) ?? fallback;
+}
+
+function parseEasingValue(value: string): EasingFunction | null {
+  if (KEYWORD_EASINGS[value]) return KEYWORD_EASINGS[value];
+
+  const bezier = value.match(/^cubic-bezier\(([^)]*)\)$/);
+  if (bezier) {
+    const points = bezier[1].split(',').map(Number);
+    // x values must stay in [0, 1] for the curve to be a function of time
+    if (points.length !== 4 || points.some(isNaN) || points[0] < 0 || points[0] > 1 || points[2] < 0 || points[2] > 1) {
+      return null;
+    }
+    return cubicBezier(points[0], points[1], points[2], points[3]);
+  }
+
+  const stepped = value.match(/^steps\(\s*(\d+)\s*(?:,\s*([a-z-]+)\s*)?\)$/);
+  if (stepped) {
+    const count = parseInt(stepped[1], 10);
+    const position = (stepped[2] ?? 'jump-end') as StepPosition;
+    const valid = ['jump-start', 'jump-end', 'jump-none', 'jump-both', 'start', 'end'].includes(position);
+    if (!valid || count < 1 || (position === 'jump-none' && count < 2)) return null;
+    return steps(count, position);
+  }
+
+  return null;
+}
+
+/**
+ * Parses a CSS time ("200ms", "0.3s") into milliseconds. The first value of a list is used.
+ */
+export function parseDuration(value: string, fallback: number): number {
+  const match = value.split(',')[0].trim().match(/^(\d*\.?\d+)(ms|s)$/i);
+  if (!match) return fallback;
+  const amount = parseFloat(match[1]);
+  return match[2].toLowerCase() === 's' ? amount * 1000 : amount;
+}
+
 /**
  * Animation state
  */
@@ -0,0 +1,219 @@
+import { BagelConfig, RadialItem } from '../types';
+
+export type IconKind = 'glyph' | 'image' | 'path';
+
+// SVG path icons are drawn in this coordinate space (Material / Feather convention)
+export const ICON_VIEWBOX = 24;
+
+const IMAGE_PATTERN = /^(data:image\/|blob:|https?:\/\/|\/|\.{1,2}\/)|\.(png|jpe?g|gif|webp|avif|svg)(\?.*)?$/i;
+const PATH_START = /^[Mm]\s*[-+.\d]/; // Path data always starts with a moveto
+const PATH_CHARS = /^[MmLlHhVvCcSsQqTtAaZz\d\s.,eE+-]+$/;
+
+/**
+ * Tells what an icon string is: an image URL (or data URI), SVG path data, or a glyph (emoji / text).
+ */
+export function getIconKind(icon: string): IconKind {
+    const value = icon.trim();
+    if (IMAGE_PATTERN.test(value)) return 'image';
+    if (PATH_START.test(value) && PATH_CHARS.test(value)) return 'path';
+    return 'glyph';
+}
+
+export interface IconLayout {
+    size: number; // CSS pixels
+    showLabel: boolean; // Stacked with the label (placed by the label layout) or alone at the slice center
+}
+
+/**
+ * How a slice shows its icon. Null for items without an icon.
+ */
+export function getIconLayout(item: RadialItem, config: BagelConfig): IconLayout | null {
+    if (!item.icon) return null;
+
+    if (config.iconDisplay === 'icon') {
+        return { size: Math.min(28, config.ringWidth * 0.45), showLabel: false };
+    }
+    return { size: Math.min(18, config.ringWidth * 0.3), showLabel: true };
+}
+
+/**
+ * Color an item's icon is tinted with, or null to keep the image's own colors
+ */
+export function getIconTint(item: RadialItem, labelColor: string): string | null {
+    return item.iconTint === false ? null : labelColor;
+}
+
+export interface AtlasEntry {
+    source: CanvasImageSource;
+    // Cell in device pixels
+    x: number;
+    y: number;
+    size: number;
+}
+
+type AtlasSurface = HTMLCanvasElement | OffscreenCanvas;
+type DecodedImage = HTMLImageElement | ImageBitmap;
+
+interface AtlasPage {
+    canvas: AtlasSurface;
+    ctx: CanvasRenderingContext2D;
+    cursorX: number;
+    shelfY: number;
+    shelfHeight: number;
+}
+
+const PAGE_SIZE = 1024; // device pixels
+const MAX_ICON_SIZE = 128;
+
+function createSurface(size: number): AtlasSurface {
+    if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(size, size);
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    return canvas;
+}
+
+function loadImage(url: string): Promise<DecodedImage> {
+    // Inside a worker there is no Image, decode through fetch instead (SVG files need the main thread)
+    if (typeof Image === 'undefined') {
+        return fetch(url).then(response => response.blob()).then(blob => createImageBitmap(blob));
+    }
+    const image = new Image();
+    image.decoding = 'async';
+    image.src = url;
+    return image.decode().then(() => image);
+}
+
+/**
+ * Icons rasterized once into atlas pages, one set of pages per device pixel ratio, so drawing
+ * a slice is a plain blit. Images are decoded ahead of time (preload) and skipped until ready;
+ * onReady is called when one arrives so the renderer can redraw.
+ */
+export class IconAtlas {
+    private images: Map<string, DecodedImage | 'loading' | 'error'> = new Map();
+    private pages: Map<number, AtlasPage[]> = new Map(); // dpr -> pages
+    private entries: Map<string, AtlasEntry> = new Map();
+    private onReady: () => void;
+
+    constructor(onReady: () => void) {
+        this.onReady = onReady;
+    }
+
+    /**
+     * Starts decoding the image icons of the items and their static children.
+     */
+    public preload(items: RadialItem[]) {
+        items.forEach(item => {
+            if (item.icon && getIconKind(item.icon) === 'image') this.requestImage(item.icon.trim());
+            if (item.children) this.preload(item.children);
+        });
+    }
+
+    /**
+     * Atlas cell for an icon at a size (CSS pixels), or null while its image is still decoding.
+     * @param tint - Fill color, or null to keep the image's own colors
+     * @param font - Font family for glyph icons
+     */
+    public get(icon: string, size: number, dpr: number, tint: string | null, font: string): AtlasEntry | null {
+        const value = icon.trim();
+        const kind = getIconKind(value);
+        const key = [dpr, size, tint ?? '', kind === 'glyph' ? font : '', value].join('|');
+
+        const cached = this.entries.get(key);
+        if (cached) return cached;
+
+        let image: DecodedImage | null = null;
+        if (kind === 'image') {
+            const status = this.images.get(value);
+            if (!status) this.requestImage(value);
+            if (!status || status === 'loading' || status === 'error') return null;
+            image = status;
+        }
+
+        const entry = this.rasterize(kind, value, image, Math.min(MAX_ICON_SIZE, Math.ceil(size * dpr)), dpr, tint, font);
+        this.entries.set(key, entry);
+        return entry;
+    }
+
+    private requestImage(url: string) {
+        if (this.images.has(url)) return;
+        this.images.set(url, 'loading');
+
+        loadImage(url).then(
+            (image) => {
+                this.images.set(url, image);
+                this.onReady();
+            },
+            (error) => {
+                console.warn(`[Bagel] Failed to load icon "${url}":`, error);
+                this.images.set(url, 'error');
+            }
+        );
+    }
+
+    private rasterize(kind: IconKind, value: string, image: DecodedImage | null, cell: number, dpr: number, tint: string | null, font: string): AtlasEntry {
+        const { page, x, y } = this.allocate(dpr, cell);
+        const { ctx } = page;
+        const color = tint ?? '#ffffff';
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(x, y, cell, cell);
+        ctx.clip();
+        ctx.clearRect(x, y, cell, cell);
+
+        if (kind === 'glyph') {
+            // Color emoji ignore the fill, monochrome glyphs take the tint
+            ctx.font = `${cell * 0.85}px ${font}`;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillStyle = color;
+            ctx.fillText(value, x + cell / 2, y + cell / 2);
+        } else if (kind === 'path') {
+            ctx.translate(x, y);
+            ctx.scale(cell / ICON_VIEWBOX, cell / ICON_VIEWBOX);
+            ctx.fillStyle = color;
+            ctx.fill(new Path2D(value));
+        } else if (image) {
+            // Contain-fit, then use the image as a mask for the tint
+            const width = image instanceof ImageBitmap ? image.width : image.naturalWidth;
+            const height = image instanceof ImageBitmap ? image.height : image.naturalHeight;
+            const scale = Math.min(cell / width, cell / height);
+            ctx.drawImage(image, x + (cell - width * scale) / 2, y + (cell - height * scale) / 2, width * scale, height * scale);
+            if (tint) {
+                ctx.globalCompositeOperation = 'source-in';
+                ctx.fillStyle = tint;
+                ctx.fillRect(x, y, cell, cell);
+            }
+        }
+
+        ctx.restore();
+        return { source: page.canvas, x, y, size: cell };
+    }
+
+    /**
+     * Shelf packing: cells fill a row left to right, a full row opens the next shelf, a full page a new page
+     */
+    private allocate(dpr: number, cell: number): { page: AtlasPage; x: number; y: number } {
+        const pages = this.pages.get(dpr) ?? [];
+        this.pages.set(dpr, pages);
+
+        const padded = cell + 2; // 1px padding keeps neighbours from bleeding in when scaled
+        let page = pages[pages.length - 1];
+        if (page && page.cursorX + padded > PAGE_SIZE) {
+            page.shelfY += page.shelfHeight;
+            page.cursorX = 0;
+            page.shelfHeight = 0;
+        }
+        if (!page || page.shelfY + padded > PAGE_SIZE) {
+            const canvas = createSurface(PAGE_SIZE);
+            page = { canvas, ctx: canvas.getContext('2d') as CanvasRenderingContext2D, cursorX: 0, shelfY: 0, shelfHeight: 0 };
+            pages.push(page);
+        }
+
+        const position = { page, x: page.cursorX + 1, y: page.shelfY + 1 };
+        page.cursorX += padded;
+        page.shelfHeight = Math.max(page.shelfHeight, padded);
+        return position;
+    }
+}
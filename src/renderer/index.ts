@@ -0,0 +1,30 @@
+import { BagelConfig, RadialItem } from '../types';
+import { BagelStateManager } from '../core/state';
+import { CanvasRenderer } from './canvas';
+import { SvgRenderer } from './svg';
+import { supportsWorkerRendering, WorkerCanvasRenderer } from './worker';
+import { BagelRenderer, RenderSurface } from './types';
+
+export type { BagelRenderer, RendererType, RenderSurface } from './types';
+export { supportsWorkerRendering } from './worker';
+
+/**
+ * Picks the backend matching the surface the wrapper mounted (<canvas> or <svg>).
+ * With useWorker a canvas is drawn from a Web Worker where OffscreenCanvas is supported,
+ * and in-thread otherwise. Such a canvas cannot be handed to an in-thread renderer later.
+ */
+export function createRenderer(
+    surface: RenderSurface,
+    stateManager: BagelStateManager,
+    items: RadialItem[],
+    config: BagelConfig,
+    useWorker: boolean = false
+): BagelRenderer {
+    if (surface instanceof SVGSVGElement) {
+        return new SvgRenderer(surface, stateManager, items, config);
+    }
+    if (useWorker && supportsWorkerRendering()) {
+        return new WorkerCanvasRenderer(surface, stateManager, items, config);
+    }
+    return new CanvasRenderer(surface, stateManager, items, config);
+}
@@ -0,0 +1,227 @@
+import { LabelConfig, LabelOrientation } from '../types';
+
+/**
+ * Width of a text at a font size, in CSS pixels
+ */
+export type MeasureText = (text: string, fontSize: number) => number;
+
+/**
+ * Slice geometry a label is laid out in (absolute angles, gaps already removed)
+ */
+export interface SliceFrame {
+    depth: number;
+    rInner: number;
+    rOuter: number;
+    startTheta: number;
+    endTheta: number;
+    iconSize: number; // Room for a stacked icon, 0 without one
+}
+
+export interface LabelLine {
+    text: string;
+    // Center of the line. Curved lines are centered on (radius, thetaMid) instead.
+    x: number;
+    y: number;
+    radius: number;
+    rotation: number; // Radial lines, radians
+}
+
+export interface LabelLayout {
+    orientation: LabelOrientation;
+    fontSize: number;
+    lineHeight: number;
+    lines: LabelLine[];
+    truncated: boolean; // Ellipsis applied: show the full text as a tooltip
+    thetaMid: number;
+    flipped: boolean; // Curved text on the lower half reads counter-clockwise to stay upright
+    icon: { x: number; y: number } | null; // Center for the stacked icon
+}
+
+const ELLIPSIS = '…';
+const LINE_HEIGHT = 1.15;
+const ICON_GAP = 2;
+
+const DEFAULT_FONT_SIZE = 12;
+const DEFAULT_MIN_FONT_SIZE = 9;
+const DEFAULT_MAX_LINES = 2;
+
+/**
+ * Greedy word wrap. Words longer than the width get a line of their own.
+ */
+export function wrapText(text: string, width: number, fontSize: number, measure: MeasureText): string[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    const lines: string[] = [];
+    let current = '';
+
+    words.forEach(word => {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && measure(candidate, fontSize) > width) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = candidate;
+        }
+    });
+    if (current) lines.push(current);
+    return lines;
+}
+
+/**
+ * Longest prefix of the text that fits with an ellipsis appended
+ */
+export function truncateText(text: string, width: number, fontSize: number, measure: MeasureText): string {
+    if (measure(text, fontSize) <= width) return text;
+
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (measure(text.slice(0, mid).trimEnd() + ELLIPSIS, fontSize) <= width) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return text.slice(0, low).trimEnd() + ELLIPSIS;
+}
+
+/**
+ * Auto orientation: radial text for slices narrower than the ring, text along the arc on outer
+ * rings, straight text on the root ring
+ */
+function pickOrientation(frame: SliceFrame, config: LabelConfig): LabelOrientation {
+    if (config.orientation && config.orientation !== 'auto') return config.orientation;
+
+    const rMid = (frame.rInner + frame.rOuter) / 2;
+    const arcLength = (frame.endTheta - frame.startTheta) * rMid;
+    if (arcLength < (frame.rOuter - frame.rInner) * 0.75) return 'radial';
+    return frame.depth > 0 ? 'curved' : 'horizontal';
+}
+
+/**
+ * Largest font size (down to the minimum) at which the wrapped text fits the box;
+ * below that, the last allowed line is cut with an ellipsis
+ */
+function fitText(text: string, width: number, height: number, config: LabelConfig, measure: MeasureText) {
+    const maxSize = config.fontSize ?? DEFAULT_FONT_SIZE;
+    const minSize = Math.min(maxSize, config.minFontSize ?? DEFAULT_MIN_FONT_SIZE);
+    const maxLines = Math.max(1, config.maxLines ?? DEFAULT_MAX_LINES);
+    const allowedLines = (size: number) => Math.max(1, Math.min(maxLines, Math.floor(height / (size * LINE_HEIGHT))));
+
+    for (let size = maxSize; size >= minSize; size--) {
+        const lines = wrapText(text, width, size, measure);
+        if (lines.length <= allowedLines(size) && lines.every(line => measure(line, size) <= width)) {
+            return { fontSize: size, lines, truncated: false };
+        }
+    }
+
+    const allowed = allowedLines(minSize);
+    const wrapped = wrapText(text, width, minSize, measure);
+    const lines = wrapped.slice(0, allowed);
+    if (wrapped.length > allowed) lines[allowed - 1] = wrapped.slice(allowed - 1).join(' ');
+    return {
+        fontSize: minSize,
+        lines: lines.map(line => truncateText(line, width, minSize, measure)),
+        truncated: true
+    };
+}
+
+/**
+ * Fits a label into its slice: picks the orientation, wraps, shrinks the font to the slice's
+ * real size at that depth and truncates what still does not fit.
+ */
+export function layoutLabel(text: string, frame: SliceFrame, config: LabelConfig, measure: MeasureText): LabelLayout {
+    const orientation = pickOrientation(frame, config);
+    const { rInner, rOuter, startTheta, endTheta, iconSize } = frame;
+    const sweep = endTheta - startTheta;
+    const thetaMid = (startTheta + endTheta) / 2;
+    const rMid = (rInner + rOuter) / 2;
+    const iconRoom = iconSize > 0 ? iconSize + ICON_GAP : 0;
+
+    // Curved and radial text leave the inner edge of the band to the icon
+    const bandInner = rInner + (orientation === 'horizontal' ? 0 : iconRoom);
+    const bandMid = (bandInner + rOuter) / 2;
+    const band = rOuter - bandInner;
+
+    let width: number;
+    let height: number;
+    if (orientation === 'curved') {
+        width = sweep * bandMid * 0.85;
+        height = band * 0.85;
+    } else if (orientation === 'radial') {
+        width = band * 0.85;
+        height = sweep * rMid * 0.8;
+    } else {
+        width = (rOuter - rInner) * 0.8;
+        height = (rOuter - rInner) * 0.7 - iconRoom;
+    }
+
+    const { fontSize, lines: texts, truncated } = fitText(text, width, Math.max(height, 0), config, measure);
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const count = texts.length;
+    const flipped = orientation === 'curved' && Math.sin(thetaMid) > 0;
+    let icon: LabelLayout['icon'] = null;
+    let lines: LabelLine[];
+
+    if (orientation === 'curved') {
+        // First line on the outside when upright, on the inside when flipped
+        lines = texts.map((line, i) => {
+            const offset = ((count - 1) / 2 - i) * lineHeight;
+            const radius = bandMid + (flipped ? -offset : offset);
+            return { text: line, x: Math.cos(thetaMid) * radius, y: Math.sin(thetaMid) * radius, radius, rotation: 0 };
+        });
+    } else if (orientation === 'radial') {
+        // Rotated along the radius, turned around on the left half to stay upright
+        const rotation = Math.cos(thetaMid) < 0 ? thetaMid + Math.PI : thetaMid;
+        lines = texts.map((line, i) => {
+            const offset = (i - (count - 1) / 2) * lineHeight;
+            const x = Math.cos(thetaMid) * bandMid - Math.sin(rotation) * offset;
+            const y = Math.sin(thetaMid) * bandMid + Math.cos(rotation) * offset;
+            return { text: line, x, y, radius: bandMid, rotation };
+        });
+    } else {
+        // Icon and text block stacked, the pair centered on the slice
+        const centerX = Math.cos(thetaMid) * rMid;
+        const centerY = Math.sin(thetaMid) * rMid;
+        const top = centerY - (iconRoom + count * lineHeight) / 2;
+        if (iconSize > 0) icon = { x: centerX, y: top + iconSize / 2 };
+        lines = texts.map((line, i) => ({
+            text: line,
+            x: centerX,
+            y: top + iconRoom + (i + 0.5) * lineHeight,
+            radius: rMid,
+            rotation: 0
+        }));
+    }
+
+    if (!icon && iconSize > 0) {
+        const r = rInner + ICON_GAP + iconSize / 2;
+        icon = { x: Math.cos(thetaMid) * r, y: Math.sin(thetaMid) * r };
+    }
+
+    return { orientation, fontSize, lineHeight, lines, truncated, thetaMid, flipped, icon };
+}
+
+export const HINT_FONT_SIZE = 8;
+
+/**
+ * Center of a keyboard hint: the slice's inner corner at the start of its arc, clear of the badge
+ * @param width - Width of the hint text
+ */
+export function getHintPosition(frame: SliceFrame, width: number): { x: number; y: number } {
+    const r = frame.rInner + HINT_FONT_SIZE / 2 + 3;
+    const sweep = frame.endTheta - frame.startTheta;
+    const theta = frame.startTheta + Math.min((width / 2 + 4) / r, sweep / 2);
+    return { x: Math.cos(theta) * r, y: Math.sin(theta) * r };
+}
+
+/**
+ * Measures with a 2D context (the canvas being drawn, or a scratch one for SVG)
+ */
+export function createCanvasMeasure(ctx: CanvasRenderingContext2D, weight: number, fontFamily: string, letterSpacing: string = '0px'): MeasureText {
+    return (text, fontSize) => {
+        ctx.font = `${weight} ${fontSize}px ${fontFamily}`;
+        ctx.letterSpacing = letterSpacing;
+        return ctx.measureText(text).width;
+    };
+}
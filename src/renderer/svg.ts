@@ -0,0 +1,973 @@
+import { BagelConfig, CenterRenderer, Point, RadialItem, RadialItemBadge } from '../types';
+import { BagelStateManager, MenuState, MenuStatus } from '../core/state';
+import { cartesianToPolar, getArcSpan, getArcStart, getCenterRadius, getRingBounds, getSliceSpans, hitTest, SliceSpan, TWO_PI } from '../core/geometry';
+import { AnimationManager, easeOutCubic, EasingFunction, parseEasing, spring } from './effects/animations';
+import { getVisibleItems, isItemCheckable, isItemDisabled } from '../core/items';
+import { BagelRenderer } from './types';
+import { getTreeColor, lightenColor } from './colors';
+import { readRenderTheme, RenderTheme } from './theme';
+import { getIconKind, getIconLayout, getIconTint, ICON_VIEWBOX } from './icons';
+import { BADGE_FONT_SIZE, BADGE_TEXT_COLOR, getBadgeShape } from './badges';
+import { createCanvasMeasure, getHintPosition, HINT_FONT_SIZE, LabelLayout, layoutLabel, SliceFrame } from './labels';
+import { getShortcutHint } from '../core/shortcuts';
+import { CENTER_FONT_SIZE, layoutCenter, resolveCenterPath } from './center';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+type Attributes = Record<string, string | number>;
+
+// Filter and text path ids are document-wide, several menus can share a page
+let tintFilterCount = 0;
+let labelPathCount = 0;
+
+function createSvgElement<K extends keyof SVGElementTagNameMap>(tag: K, attributes: Attributes = {}): SVGElementTagNameMap[K] {
+    const element = document.createElementNS(SVG_NS, tag);
+    setAttributes(element, attributes);
+    return element;
+}
+
+/**
+ * Sets attributes, skipping the ones that already have the value (avoids needless style invalidation)
+ */
+function setAttributes(element: Element, attributes: Attributes) {
+    for (const [name, value] of Object.entries(attributes)) {
+        const text = String(value);
+        if (element.getAttribute(name) !== text) element.setAttribute(name, text);
+    }
+}
+
+function polarPoint(r: number, theta: number): string {
+    return `${(Math.cos(theta) * r).toFixed(2)} ${(Math.sin(theta) * r).toFixed(2)}`;
+}
+
+/**
+ * Path data for a ring sector between two absolute angles (same direction as canvas arcs)
+ */
+function describeSlice(rInner: number, rOuter: number, startTheta: number, endTheta: number): string {
+    const sweep = endTheta - startTheta;
+
+    // A single arc command cannot draw a full circle: use two half circles per edge (evenodd fill)
+    if (sweep >= TWO_PI - 1e-6) {
+        const circle = (r: number) =>
+            `M ${polarPoint(r, startTheta)} A ${r} ${r} 0 1 1 ${polarPoint(r, startTheta + Math.PI)} ` +
+            `A ${r} ${r} 0 1 1 ${polarPoint(r, startTheta)} Z`;
+        return `${circle(rOuter)} ${circle(rInner)}`;
+    }
+
+    const largeArc = sweep > Math.PI ? 1 : 0;
+    return [
+        `M ${polarPoint(rOuter, startTheta)}`,
+        `A ${rOuter} ${rOuter} 0 ${largeArc} 1 ${polarPoint(rOuter, endTheta)}`,
+        `L ${polarPoint(rInner, endTheta)}`,
+        `A ${rInner} ${rInner} 0 ${largeArc} 0 ${polarPoint(rInner, startTheta)}`,
+        'Z'
+    ].join(' ');
+}
+
+function describeArc(r: number, startTheta: number, endTheta: number): string {
+    const largeArc = endTheta - startTheta > Math.PI ? 1 : 0;
+    return `M ${polarPoint(r, startTheta)} A ${r} ${r} 0 ${largeArc} 1 ${polarPoint(r, endTheta)}`;
+}
+
+interface SliceView {
+    item: RadialItem;
+    group: SVGGElement;
+    shape: SVGPathElement;
+    label: SVGTextElement;
+    icon: SVGElement | null;
+    indicator: SVGGElement | null;
+    checked: boolean | null;
+    labelStyle: string | null; // Font the label was last laid out with
+    span: SliceSpan;
+    title: SVGTitleElement | null; // Full text of a truncated label
+    badge: SVGGElement | null;
+    badgeKey: string; // Badge and font the badge group was built for
+    hint: SVGTextElement | null; // Keyboard accelerator
+    hintKey: string;
+}
+
+interface RingView {
+    key: string; // Items (and parent) the ring was built for; a different key rebuilds it
+    group: SVGGElement;
+    slices: SliceView[];
+    spinner: SVGPathElement | null;
+}
+
+interface RingLayout {
+    depth: number;
+    items: RadialItem[];
+    parentItem: RadialItem | null;
+    pending: 'loading' | 'error' | null;
+}
+
+/**
+ * Renders the menu as live SVG elements: crisp at any zoom, inspectable in dev tools,
+ * with real text nodes. Slices are `g.bagel-slice` groups (plus `--active` / `--disabled`
+ * modifiers) whose fills are presentation attributes, so stylesheets can override them,
+ * e.g. on :hover. Particles and the selection pulse are canvas-only effects.
+ */
+export class SvgRenderer implements BagelRenderer {
+    public readonly drawsRecents = false;
+    private svg: SVGSVGElement;
+    private stateManager: BagelStateManager;
+    private config: BagelConfig;
+    private rootItems: RadialItem[];
+
+    private rafId: number | null = null;
+    private unsubscribe: (() => void) | null = null;
+    private isDirty: boolean = true;
+    private debug: boolean = false;
+    private lastCursor: Point | null = null;
+    private lastState: MenuState | null = null;
+    private lastFrameTime: number = 0;
+
+    // Ring visibility animations (per depth)
+    private animationManager: AnimationManager = new AnimationManager();
+    private ringOpacities: Map<number, number> = new Map();
+    private ringScales: Map<number, number> = new Map();
+
+    // Layers, back to front
+    private defs: SVGDefsElement;
+    private deadZone: SVGCircleElement;
+    private ringsLayer: SVGGElement;
+    private cursorLine: SVGLineElement;
+    private centerDisc: SVGCircleElement;
+    private centerContent: SVGGElement;
+    private debugLayer: SVGGElement;
+
+    private rings: Map<number, RingView> = new Map(); // depth -> ring
+
+    // Theme read for the current frame, ring animations take their timing from it
+    private frameTheme: RenderTheme | null = null;
+    private tintFilters: Map<string, string> = new Map(); // color -> filter id
+
+    // Hub content is rebuilt only when what it shows changes
+    private centerKey: string = '';
+    private centerRender: CenterRenderer | undefined;
+
+    // Scratch context to measure labels without forcing SVG layout
+    private measureContext: CanvasRenderingContext2D | null = null;
+
+    constructor(
+        svg: SVGSVGElement,
+        stateManager: BagelStateManager,
+        items: RadialItem[],
+        config: BagelConfig
+    ) {
+        this.svg = svg;
+        this.stateManager = stateManager;
+        this.rootItems = items;
+        this.config = config;
+
+        this.defs = createSvgElement('defs');
+        this.deadZone = createSvgElement('circle', { class: 'bagel-dead-zone', 'stroke-width': 1 });
+        this.ringsLayer = createSvgElement('g', { class: 'bagel-rings' });
+        this.cursorLine = createSvgElement('line', { class: 'bagel-cursor', x1: 0, y1: 0, 'stroke-width': 2 });
+        this.centerDisc = createSvgElement('circle', { class: 'bagel-center', fill: '#333' });
+        this.centerContent = createSvgElement('g', { class: 'bagel-center-content', 'pointer-events': 'none' });
+        this.debugLayer = createSvgElement('g', { class: 'bagel-debug', 'pointer-events': 'none' });
+
+        this.svg.replaceChildren(this.defs, this.deadZone, this.ringsLayer, this.cursorLine, this.centerDisc, this.centerContent, this.debugLayer);
+        this.svg.style.userSelect = 'none';
+
+        this.setupViewBox();
+
+    }
+
+    public setDebug(enabled: boolean) {
+        this.debug = enabled;
+        this.isDirty = true;
+    }
+
+    public updateConfig(newConfig: BagelConfig) {
+        this.config = newConfig;
+        this.clearRings();
+        this.isDirty = true;
+    }
+
+    public updateItems(newItems: RadialItem[]) {
+        this.rootItems = newItems;
+        this.clearRings();
+        this.isDirty = true;
+    }
+
+    public updateCursor(point: Point | null) {
+        this.lastCursor = point;
+        this.isDirty = true;
+    }
+
+    public start() {
+        // Listen to state changes while running, so a stopped renderer can be dropped
+        if (!this.unsubscribe) {
+            this.unsubscribe = this.stateManager.subscribe(this.markDirty);
+            this.isDirty = true;
+        }
+        if (!this.rafId) {
+            this.loop();
+        }
+    }
+
+    public stop() {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+        if (this.rafId) {
+            cancelAnimationFrame(this.rafId);
+            this.rafId = null;
+        }
+    }
+
+    private markDirty = () => {
+        this.isDirty = true;
+    };
+
+    public resize() {
+        this.setupViewBox();
+        this.isDirty = true;
+    }
+
+    /**
+     * Centered view box in CSS pixels, so (0, 0) is the menu center like on the canvas
+     */
+    private setupViewBox() {
+        const rect = this.svg.getBoundingClientRect();
+        const width = Math.max(1, rect.width);
+        const height = Math.max(1, rect.height);
+        this.svg.setAttribute('viewBox', `${-width / 2} ${-height / 2} ${width} ${height}`);
+    }
+
+    private loop = (currentTime: number = 0) => {
+        this.lastFrameTime = currentTime;
+        this.animationManager.update(currentTime);
+
+        const state = this.stateManager.getState();
+        if (!this.lastState || this.lastState.status !== state.status ||
+            JSON.stringify(this.lastState.activePath) !== JSON.stringify(state.activePath)) {
+            this.updateRingAnimations(state);
+        }
+        this.lastState = { ...state };
+
+        const hasRingAnimations = Array.from(this.ringOpacities.keys()).some(depth => {
+            return this.animationManager.isActive(`ring-${depth}`) ||
+                this.animationManager.isActive(`ring-scale-${depth}`);
+        });
+
+        // Keep the loading spinner moving
+        const hasPendingChildren = this.stateManager.children.isLoading();
+
+        if (this.isDirty || hasRingAnimations || hasPendingChildren) {
+            this.render();
+            this.isDirty = false;
+        }
+        this.rafId = requestAnimationFrame(this.loop);
+    };
+
+    /**
+     * Rings fade and scale in when they first appear along the active path
+     */
+    private updateRingAnimations(state: MenuState) {
+        const isVisible = state.status === MenuStatus.OPEN || state.status === MenuStatus.GLIDING;
+        if (!isVisible) {
+            this.ringOpacities.clear();
+            this.ringScales.clear();
+            return;
+        }
+
+        const lastMaxDepth = this.lastState && this.lastState.status !== MenuStatus.CLOSED &&
+            this.lastState.status !== MenuStatus.MARKING ? this.lastState.activePath.length : -1;
+        const currentMaxDepth = state.activePath.length;
+
+        for (let d = lastMaxDepth + 1; d <= currentMaxDepth; d++) {
+            this.animateRingAppearance(d);
+        }
+
+        // Rings that left the path start hidden when they come back
+        for (let d = currentMaxDepth + 1; d < 10; d++) {
+            this.animationManager.stop(`ring-${d}`);
+            this.animationManager.stop(`ring-scale-${d}`);
+            this.ringOpacities.delete(d);
+            this.ringScales.delete(d);
+        }
+    }
+
+    private animateRingAppearance(depth: number) {
+        this.ringOpacities.set(depth, 0);
+        this.ringScales.set(depth, 0.8);
+
+        // Rings take 1.5x the theme transition, 300ms by default
+        const { duration, easing } = this.getTiming();
+        this.animationManager.animate(`ring-${depth}`, 0, 1, duration * 1.5, easing, (value) => {
+            this.ringOpacities.set(depth, value);
+            this.isDirty = true;
+        });
+        this.animationManager.animate(`ring-scale-${depth}`, 0.8, 1.0, duration * 1.5, spring, (value) => {
+            this.ringScales.set(depth, value);
+            this.isDirty = true;
+        });
+    }
+
+    /**
+     * Transition timing from the theme (--bagel-transition-duration / --bagel-easing-function)
+     */
+    private getTiming(): { duration: number; easing: EasingFunction } {
+        const theme = this.frameTheme ?? readRenderTheme(this.svg);
+        return { duration: theme.transitionDuration, easing: parseEasing(theme.easing, easeOutCubic) };
+    }
+
+    private render() {
+        const theme = readRenderTheme(this.svg);
+        this.frameTheme = theme;
+        const state = this.stateManager.getState();
+
+        try {
+            // When closed or marking, only show dead zone (no rings)
+            const isHidden = state.status === MenuStatus.CLOSED || state.status === MenuStatus.MARKING;
+            const { innerRadius, deadZoneRadius = 0 } = this.config;
+            setAttributes(this.deadZone, {
+                r: deadZoneRadius || innerRadius * 0.3,
+                fill: theme.bgInactive,
+                stroke: theme.borderColor,
+                display: isHidden ? 'inline' : 'none'
+            });
+
+            this.renderRings(isHidden ? [] : this.getRingLayouts(state), state, theme);
+
+            // Cursor Line (if gliding)
+            const showCursor = state.status === MenuStatus.GLIDING && !!this.lastCursor;
+            setAttributes(this.cursorLine, {
+                x2: this.lastCursor ? this.lastCursor.x : 0,
+                y2: this.lastCursor ? this.lastCursor.y : 0,
+                stroke: theme.cursor,
+                display: showCursor ? 'inline' : 'none'
+            });
+
+            // Center Info
+            setAttributes(this.centerDisc, {
+                r: getCenterRadius(this.config),
+                fill: state.activePath.length > 0 ? theme.bgActive : theme.bgInactive
+            });
+            this.renderCenterContent(state, theme);
+
+            this.renderDebugInfo(state);
+        } catch (e) {
+            console.error('[SvgRenderer] Critical Error in Render Loop:', e);
+            this.stop(); // Stop loop to prevent browser hang
+        }
+    }
+
+    /**
+     * Rings to show for the active path: the root, each opened branch, and a placeholder
+     * for lazy children that are loading or failed
+     */
+    private getRingLayouts(state: MenuState): RingLayout[] {
+        let currentItems = getVisibleItems(this.rootItems);
+        const layouts: RingLayout[] = [{ depth: 0, items: currentItems, parentItem: null, pending: null }];
+
+        for (const activeIndex of state.activePath) {
+            const selectedItem = currentItems[activeIndex];
+            if (!selectedItem) break;
+
+            const children = this.stateManager.children.getChildren(selectedItem);
+            const depth = layouts.length;
+            if (children.length > 0) {
+                layouts.push({ depth, items: children, parentItem: selectedItem, pending: null });
+                currentItems = children;
+            } else {
+                const status = this.stateManager.children.getStatus(selectedItem);
+                if (status === 'loading' || status === 'error') {
+                    layouts.push({ depth, items: [], parentItem: selectedItem, pending: status });
+                }
+                break;
+            }
+        }
+
+        return layouts;
+    }
+
+    private renderRings(layouts: RingLayout[], state: MenuState, theme: RenderTheme) {
+        const visibleDepths = new Set(layouts.map(layout => layout.depth));
+        this.rings.forEach((ring, depth) => {
+            if (!visibleDepths.has(depth)) {
+                ring.group.remove();
+                this.rings.delete(depth);
+            }
+        });
+
+        layouts.forEach(layout => {
+            const key = [
+                layout.pending ?? '',
+                layout.parentItem?.id ?? '',
+                layout.items.map(item => `${item.id}:${item.weight ?? 1}`).join(',')
+            ].join('|');
+
+            let ring = this.rings.get(layout.depth);
+            if (!ring || ring.key !== key) {
+                ring?.group.remove();
+                ring = this.buildRing(layout, key, theme);
+                this.rings.set(layout.depth, ring);
+                this.ringsLayer.appendChild(ring.group);
+            }
+
+            setAttributes(ring.group, {
+                opacity: this.ringOpacities.get(layout.depth) ?? 0,
+                transform: `scale(${this.ringScales.get(layout.depth) ?? 0})`
+            });
+
+            if (ring.spinner) {
+                // Spinner sweeps around the ring (or along a partial arc)
+                const { rInner, rOuter } = getRingBounds(layout.depth, this.config);
+                const arcSpan = getArcSpan(this.config);
+                const spinnerStart = getArcStart(this.config) + ((this.lastFrameTime / 1000) % 1) * arcSpan;
+                setAttributes(ring.spinner, {
+                    d: describeArc((rInner + rOuter) / 2, spinnerStart, spinnerStart + Math.min(arcSpan, Math.PI / 2)),
+                    stroke: theme.accentSecondary
+                });
+            }
+
+            this.updateSlices(ring, layout, state, theme);
+        });
+    }
+
+    private buildRing(layout: RingLayout, key: string, theme: RenderTheme): RingView {
+        const { depth, items } = layout;
+        const group = createSvgElement('g', { class: 'bagel-ring', 'data-depth': depth });
+        const ring: RingView = { key, group, slices: [], spinner: null };
+
+        const { rInner, rOuter } = getRingBounds(depth, this.config);
+        const arcStart = getArcStart(this.config);
+        const arcSpan = getArcSpan(this.config);
+
+        if (layout.pending) {
+            // Placeholder for children that have not arrived
+            group.classList.add('bagel-ring--pending');
+            group.appendChild(createSvgElement('path', {
+                d: describeSlice(rInner, rOuter, arcStart, arcStart + arcSpan),
+                'fill-rule': 'evenodd',
+                fill: layout.pending === 'error' ? 'rgba(239, 68, 68, 0.6)' : theme.bgInactive,
+                stroke: theme.borderColor,
+                'stroke-width': 0.5
+            }));
+
+            if (layout.pending === 'error') {
+                const { x, y } = this.getSliceCenter(depth, { start: 0, end: arcSpan });
+                const message = createSvgElement('text', {
+                    x, y,
+                    fill: theme.text,
+                    'font-size': 12,
+                    'font-family': theme.font,
+                    'text-anchor': 'middle',
+                    'dominant-baseline': 'central'
+                });
+                message.textContent = '⚠ Failed to load';
+                group.appendChild(message);
+            } else {
+                ring.spinner = createSvgElement('path', {
+                    fill: 'none',
+                    'stroke-width': 3,
+                    'stroke-linecap': 'round'
+                });
+                group.appendChild(ring.spinner);
+            }
+            return ring;
+        }
+
+        const gapPixels = this.config.gap || 0;
+        const rMid = (rInner + rOuter) / 2;
+        const gapAngle = gapPixels > 0 ? (gapPixels / rMid) : 0;
+        const spans = getSliceSpans(items, arcSpan);
+
+        items.forEach((item, index) => {
+            const span = spans[index];
+            const sliceGroup = createSvgElement('g', { class: 'bagel-slice', 'data-index': index, 'data-item-id': item.id });
+
+            const shape = createSvgElement('path', {
+                class: 'bagel-slice-shape',
+                d: describeSlice(rInner, rOuter, arcStart + span.start + gapAngle / 2, arcStart + span.end - gapAngle / 2),
+                'fill-rule': 'evenodd',
+                'stroke-width': 0.5
+            });
+
+            const iconLayout = getIconLayout(item, this.config);
+            const label = createSvgElement('text', {
+                class: 'bagel-slice-label',
+                'text-anchor': 'middle',
+                'dominant-baseline': 'central',
+                'pointer-events': 'none'
+            });
+            if (iconLayout && !iconLayout.showLabel) label.setAttribute('display', 'none');
+
+            // Stacked icons are placed with the label, once it is laid out
+            const icon = iconLayout ? this.buildIcon(item.icon!, iconLayout.size) : null;
+            if (icon && iconLayout && !iconLayout.showLabel) {
+                const { x, y } = this.getSliceCenter(depth, span);
+                this.placeIcon(icon, x, y, iconLayout.size);
+            }
+
+            sliceGroup.append(shape, label);
+            if (icon) sliceGroup.appendChild(icon);
+            group.appendChild(sliceGroup);
+            ring.slices.push({ item, group: sliceGroup, shape, label, icon, indicator: null, checked: null, labelStyle: null, span, title: null, badge: null, badgeKey: '', hint: null, hintKey: '' });
+        });
+
+        return ring;
+    }
+
+    private updateSlices(ring: RingView, layout: RingLayout, state: MenuState, theme: RenderTheme) {
+        const { depth, parentItem } = layout;
+        const activeIndexAtDepth = state.activePath[depth];
+        const spans = getSliceSpans(layout.items, getArcSpan(this.config));
+        const transition = `fill ${theme.transitionDuration}ms ${theme.easing}`;
+
+        // Slice under the pointer gets the theme's hover outline
+        const hover = this.lastCursor ? hitTest(this.lastCursor, this.config, layout.items) : null;
+        const hoveredIndex = hover && hover.depth === depth ? hover.index : -1;
+
+        ring.slices.forEach((slice, index) => {
+            const { item } = slice;
+            const isActive = index === activeIndexAtDepth;
+            const isDisabled = isItemDisabled(item);
+
+            slice.group.classList.toggle('bagel-slice--active', isActive);
+            slice.group.classList.toggle('bagel-slice--disabled', isDisabled);
+
+            // Tree color for active items, lightened for inactive, neutral when disabled
+            const treeColor = getTreeColor(item, index, depth, parentItem, state.activePath[depth - 1] ?? 0);
+            const fill = isDisabled ? theme.bgInactive : isActive ? treeColor : lightenColor(treeColor, 0.3);
+            const isHovered = index === hoveredIndex;
+            setAttributes(slice.shape, {
+                fill,
+                stroke: isHovered ? (isActive ? theme.bgActiveHover : theme.bgInactiveHover) : theme.borderColor,
+                'stroke-width': isHovered ? 2 : 0.5
+            });
+            if (slice.shape.style.transition !== transition) slice.shape.style.transition = transition;
+            setAttributes(slice.group, { opacity: isDisabled ? 0.4 : 1 });
+
+            const labelColor = isActive ? '#ffffff' : theme.text;
+            setAttributes(slice.label, { fill: labelColor });
+            const textShadow = isActive ? `0 0 2px ${theme.shadowColor}` : '';
+            if (slice.label.style.textShadow !== textShadow) slice.label.style.textShadow = textShadow;
+            if (slice.icon) this.tintIcon(slice.icon, getIconTint(item, labelColor));
+
+            // Only lay the label out again when the font changes
+            const labelStyle = `${isActive ? 600 : 400} ${theme.font}`;
+            if (slice.labelStyle !== labelStyle) {
+                slice.labelStyle = labelStyle;
+                setAttributes(slice.label, {
+                    'font-family': theme.font,
+                    'font-weight': isActive ? 600 : 400,
+                    'letter-spacing': isActive ? '0.5px' : '0px'
+                });
+                this.layoutSliceLabel(slice, depth, isActive ? 600 : 400, isActive ? '0.5px' : '0px', theme);
+            }
+
+            if (isItemCheckable(item)) {
+                const checked = this.stateManager.isChecked(item);
+                if (slice.checked !== checked) {
+                    slice.checked = checked;
+                    slice.indicator?.remove();
+                    slice.indicator = this.buildCheckIndicator(item, depth, spans[index], checked);
+                    slice.group.appendChild(slice.indicator);
+                }
+                setAttributes(slice.indicator!, { stroke: theme.text, fill: theme.text });
+                slice.indicator!.querySelectorAll('.bagel-check-mark').forEach(mark => {
+                    setAttributes(mark, mark.tagName === 'path' ? { stroke: theme.accentPrimary } : { fill: theme.accentPrimary });
+                });
+            }
+
+            // Badges are rebuilt only when their value changes
+            const badge = this.stateManager.badges.get(item);
+            const badgeKey = badge ? `${JSON.stringify(badge)}|${theme.font}` : '';
+            if (slice.badgeKey !== badgeKey) {
+                slice.badgeKey = badgeKey;
+                slice.badge?.remove();
+                slice.badge = badge ? this.buildBadge(badge, depth, slice.span, theme) : null;
+                if (slice.badge) slice.group.appendChild(slice.badge);
+            }
+
+            // Keyboard accelerator; number keys act on the ring holding the highlight
+            const focusDepth = Math.max(0, state.activePath.length - 1);
+            const hint = this.config.labels?.shortcutHints ? getShortcutHint(item, depth === focusDepth ? index : -1) : null;
+            const hintKey = hint ? `${hint}|${theme.font}` : '';
+            if (slice.hintKey !== hintKey) {
+                slice.hintKey = hintKey;
+                slice.hint?.remove();
+                slice.hint = hint ? this.buildShortcutHint(hint, depth, slice.span, theme) : null;
+                if (slice.hint) slice.group.appendChild(slice.hint);
+            }
+            if (slice.hint) {
+                setAttributes(slice.hint, { fill: isActive ? '#ffffff' : theme.text, 'fill-opacity': isActive ? 0.9 : 0.6 });
+            }
+        });
+    }
+
+    /**
+     * Rebuilds the hub content (built-in or the app's render callback) when the path, theme or config changes
+     */
+    private renderCenterContent(state: MenuState, theme: RenderTheme) {
+        const center = this.config.center;
+        const radius = getCenterRadius(this.config);
+        const path = resolveCenterPath(this.rootItems, state.activePath, this.stateManager);
+        const key = [radius, center?.content, theme.text, theme.font, ...path.map(item => `${item.id}:${item.label}:${item.icon}`)].join('|');
+        if (key === this.centerKey && center?.render === this.centerRender) return;
+        this.centerKey = key;
+        this.centerRender = center?.render;
+        this.centerContent.replaceChildren();
+
+        if (center?.render) {
+            center.render(this.centerContent, { radius, path, highlighted: path[path.length - 1] ?? null });
+            return;
+        }
+
+        const measureContext = this.getMeasureContext();
+        if (!measureContext) return;
+        const layout = layoutCenter(path, radius, center, createCanvasMeasure(measureContext, 400, theme.font));
+        if (!layout) return;
+
+        if (layout.icon) {
+            const icon = this.buildIcon(layout.icon, layout.iconSize);
+            this.placeIcon(icon, 0, layout.iconY, layout.iconSize);
+            this.tintIcon(icon, getIconTint(path[path.length - 1], theme.text));
+            this.centerContent.appendChild(icon);
+        }
+        if (layout.text) {
+            const text = createSvgElement('text', {
+                class: 'bagel-center-label',
+                y: layout.textY,
+                fill: theme.text,
+                'font-size': CENTER_FONT_SIZE,
+                'font-family': theme.font,
+                'text-anchor': 'middle',
+                'dominant-baseline': 'central'
+            });
+            text.textContent = layout.text;
+            this.centerContent.appendChild(text);
+        }
+    }
+
+    /**
+     * Icon element: a glyph is text, path data a scaled path, an image an <image>
+     */
+    private buildIcon(icon: string, size: number): SVGElement {
+        const value = icon.trim();
+        const kind = getIconKind(value);
+        const common = { class: 'bagel-slice-icon', 'pointer-events': 'none' };
+
+        if (kind === 'glyph') {
+            const glyph = createSvgElement('text', {
+                ...common,
+                'font-size': size * 0.85,
+                'text-anchor': 'middle',
+                'dominant-baseline': 'central'
+            });
+            glyph.textContent = value;
+            return glyph;
+        }
+        if (kind === 'path') {
+            return createSvgElement('path', { ...common, d: value });
+        }
+        return createSvgElement('image', {
+            ...common,
+            href: value,
+            width: size,
+            height: size,
+            preserveAspectRatio: 'xMidYMid meet'
+        });
+    }
+
+    /**
+     * Centers an icon element on (x, y)
+     */
+    private placeIcon(icon: SVGElement, x: number, y: number, size: number) {
+        if (icon.tagName === 'text') {
+            setAttributes(icon, { x, y });
+        } else if (icon.tagName === 'path') {
+            setAttributes(icon, { transform: `translate(${x - size / 2} ${y - size / 2}) scale(${size / ICON_VIEWBOX})` });
+        } else {
+            setAttributes(icon, { x: x - size / 2, y: y - size / 2 });
+        }
+    }
+
+    /**
+     * Glyphs and paths take the color as fill, images are recolored through a flood filter
+     */
+    private tintIcon(icon: SVGElement, tint: string | null) {
+        if (icon.tagName !== 'image') {
+            setAttributes(icon, { fill: tint ?? '#ffffff' });
+        } else if (tint) {
+            setAttributes(icon, { filter: `url(#${this.getTintFilter(tint)})` });
+        } else {
+            icon.removeAttribute('filter');
+        }
+    }
+
+    private getTintFilter(color: string): string {
+        let id = this.tintFilters.get(color);
+        if (id) return id;
+
+        id = `bagel-tint-${++tintFilterCount}`;
+        const filter = createSvgElement('filter', { id, 'color-interpolation-filters': 'sRGB' });
+        filter.append(
+            createSvgElement('feFlood', { 'flood-color': color }),
+            createSvgElement('feComposite', { in2: 'SourceGraphic', operator: 'in' })
+        );
+        this.defs.appendChild(filter);
+        this.tintFilters.set(color, id);
+        return id;
+    }
+
+    /**
+     * Fits the label with the shared layout engine and writes it as tspans (straight or rotated)
+     * or text paths (curved). A truncated label keeps its full text as a <title> tooltip.
+     */
+    private layoutSliceLabel(slice: SliceView, depth: number, weight: number, letterSpacing: string, theme: RenderTheme) {
+        const { item, label } = slice;
+        const iconLayout = getIconLayout(item, this.config);
+        if (iconLayout && !iconLayout.showLabel) return;
+
+        const measureContext = this.getMeasureContext();
+        if (!measureContext) return;
+
+        const measure = createCanvasMeasure(measureContext, weight, theme.font, letterSpacing);
+        const layout = layoutLabel(item.label, this.getSliceFrame(depth, slice.span, iconLayout?.size ?? 0), this.config.labels ?? {}, measure);
+
+        if (slice.icon && iconLayout && layout.icon) {
+            this.placeIcon(slice.icon, layout.icon.x, layout.icon.y, iconLayout.size);
+        }
+
+        label.replaceChildren();
+        label.removeAttribute('transform');
+        setAttributes(label, { 'font-size': layout.fontSize });
+
+        if (layout.orientation === 'curved') {
+            const defs = createSvgElement('defs');
+            layout.lines.forEach(line => {
+                const id = `bagel-label-path-${++labelPathCount}`;
+                defs.appendChild(createSvgElement('path', { id, d: this.describeLabelArc(line.radius, layout) }));
+                const textPath = createSvgElement('textPath', { href: `#${id}`, startOffset: '50%' });
+                textPath.textContent = line.text;
+                label.appendChild(textPath);
+            });
+            label.prepend(defs);
+        } else {
+            // Radial lines share one rotation around the block center
+            const center = layout.lines.reduce(
+                (sum, line) => ({ x: sum.x + line.x / layout.lines.length, y: sum.y + line.y / layout.lines.length }),
+                { x: 0, y: 0 }
+            );
+            if (layout.orientation === 'radial' && layout.lines.length > 0) {
+                const degrees = layout.lines[0].rotation * 180 / Math.PI;
+                label.setAttribute('transform', `rotate(${degrees.toFixed(2)} ${center.x.toFixed(2)} ${center.y.toFixed(2)})`);
+            }
+            layout.lines.forEach((line, i) => {
+                const offset = (i - (layout.lines.length - 1) / 2) * layout.lineHeight;
+                const tspan = createSvgElement('tspan', layout.orientation === 'radial'
+                    ? { x: center.x, y: center.y + offset }
+                    : { x: line.x, y: line.y });
+                tspan.textContent = line.text;
+                label.appendChild(tspan);
+            });
+        }
+
+        if (layout.truncated && !slice.title) {
+            slice.title = createSvgElement('title');
+            slice.title.textContent = item.label;
+            slice.group.prepend(slice.title);
+        } else if (!layout.truncated && slice.title) {
+            slice.title.remove();
+            slice.title = null;
+        }
+    }
+
+    private getMeasureContext(): CanvasRenderingContext2D | null {
+        if (!this.measureContext) {
+            this.measureContext = document.createElement('canvas').getContext('2d');
+        }
+        return this.measureContext;
+    }
+
+    /**
+     * Almost full circle at the line's radius whose midpoint is the slice center, so a
+     * text path with startOffset 50% centers on the slice. Flipped lines run counter-clockwise.
+     */
+    private describeLabelArc(radius: number, layout: LabelLayout): string {
+        const reach = Math.PI - 0.01;
+        const direction = layout.flipped ? -1 : 1;
+        const start = layout.thetaMid - direction * reach;
+        const end = layout.thetaMid + direction * reach;
+        return `M ${polarPoint(radius, start)} A ${radius} ${radius} 0 1 ${layout.flipped ? 0 : 1} ${polarPoint(radius, end)}`;
+    }
+
+    private buildShortcutHint(hint: string, depth: number, span: SliceSpan, theme: RenderTheme): SVGTextElement {
+        const measure = this.getMeasureContext();
+        if (measure) {
+            measure.font = `600 ${HINT_FONT_SIZE}px ${theme.font}`;
+            measure.letterSpacing = '0px';
+        }
+        const width = measure ? measure.measureText(hint).width : hint.length * 5;
+        const { x, y } = getHintPosition(this.getSliceFrame(depth, span, 0), width);
+
+        const text = createSvgElement('text', {
+            class: 'bagel-shortcut-hint',
+            x,
+            y,
+            'font-size': HINT_FONT_SIZE,
+            'font-weight': 600,
+            'font-family': theme.font,
+            'text-anchor': 'middle',
+            'dominant-baseline': 'central',
+            'pointer-events': 'none'
+        });
+        text.textContent = hint;
+        return text;
+    }
+
+    private buildBadge(badge: RadialItemBadge, depth: number, span: SliceSpan, theme: RenderTheme): SVGGElement {
+        const measure = this.getMeasureContext();
+        if (measure) {
+            measure.font = `700 ${BADGE_FONT_SIZE}px ${theme.font}`;
+            measure.letterSpacing = '0px';
+        }
+        const shape = getBadgeShape(badge, this.getSliceFrame(depth, span, 0), text => measure ? measure.measureText(text).width : text.length * 6);
+
+        const group = createSvgElement('g', { class: 'bagel-badge', 'pointer-events': 'none' });
+        group.appendChild(createSvgElement('rect', {
+            x: shape.x - shape.width / 2,
+            y: shape.y - shape.height / 2,
+            width: shape.width,
+            height: shape.height,
+            rx: shape.height / 2,
+            fill: shape.color
+        }));
+
+        if (shape.text) {
+            const text = createSvgElement('text', {
+                x: shape.x,
+                y: shape.y + 0.5,
+                fill: BADGE_TEXT_COLOR,
+                'font-size': BADGE_FONT_SIZE,
+                'font-weight': 700,
+                'font-family': theme.font,
+                'text-anchor': 'middle',
+                'dominant-baseline': 'central'
+            });
+            text.textContent = shape.text;
+            group.appendChild(text);
+        }
+        return group;
+    }
+
+    /**
+     * Checked state of toggle/checkbox/radio items between the label and the outer edge
+     */
+    private buildCheckIndicator(item: RadialItem, depth: number, span: SliceSpan, checked: boolean): SVGGElement {
+        const { rInner, rOuter } = getRingBounds(depth, this.config);
+        const thetaMid = getArcStart(this.config) + (span.start + span.end) / 2;
+        const r = rInner + (rOuter - rInner) * 0.82;
+        const x = Math.cos(thetaMid) * r;
+        const y = Math.sin(thetaMid) * r;
+        const size = 5;
+
+        const group = createSvgElement('g', { class: 'bagel-check', 'stroke-width': 1.2, 'pointer-events': 'none' });
+        if (item.type === 'radio') {
+            // Ring with a selected dot
+            group.appendChild(createSvgElement('circle', { cx: x, cy: y, r: size, 'fill-opacity': 0 }));
+            if (checked) {
+                group.appendChild(createSvgElement('circle', { class: 'bagel-check-mark', cx: x, cy: y, r: size * 0.5, stroke: 'none' }));
+            }
+        } else if (item.type === 'checkbox') {
+            // Box with a checkmark
+            group.appendChild(createSvgElement('rect', { x: x - size, y: y - size, width: size * 2, height: size * 2, 'fill-opacity': 0 }));
+            if (checked) {
+                group.appendChild(createSvgElement('path', {
+                    class: 'bagel-check-mark',
+                    d: `M ${x - size * 0.6} ${y} L ${x - size * 0.1} ${y + size * 0.5} L ${x + size * 0.6} ${y - size * 0.5}`,
+                    'fill-opacity': 0,
+                    'stroke-width': 1.6
+                }));
+            }
+        } else {
+            // Toggle: pill with the knob on the right when on
+            const width = size * 3;
+            group.appendChild(createSvgElement('rect', {
+                ...(checked ? { class: 'bagel-check-mark' } : {}),
+                x: x - width / 2, y: y - size, width, height: size * 2, rx: size,
+                'fill-opacity': checked ? 0.5 : 0
+            }));
+            group.appendChild(createSvgElement('circle', {
+                ...(checked ? { class: 'bagel-check-mark' } : {}),
+                cx: checked ? x + width / 2 - size : x - width / 2 + size, cy: y, r: size * 0.6, stroke: 'none'
+            }));
+        }
+        return group;
+    }
+
+    /**
+     * Slice geometry for label layout, with the same gap as the slice shape
+     */
+    private getSliceFrame(depth: number, span: SliceSpan, iconSize: number): SliceFrame {
+        const { rInner, rOuter } = getRingBounds(depth, this.config);
+        const gapAngle = (this.config.gap || 0) / ((rInner + rOuter) / 2);
+        const arcStart = getArcStart(this.config);
+        return {
+            depth,
+            rInner,
+            rOuter,
+            startTheta: arcStart + span.start + gapAngle / 2,
+            endTheta: arcStart + span.end - gapAngle / 2,
+            iconSize
+        };
+    }
+
+    /**
+     * Center point of a slice, used for icons and messages
+     */
+    private getSliceCenter(depth: number, span: SliceSpan): Point {
+        const { rInner, rOuter } = getRingBounds(depth, this.config);
+        const rMid = (rInner + rOuter) / 2;
+        const thetaMid = getArcStart(this.config) + (span.start + span.end) / 2;
+
+        return {
+            x: Math.cos(thetaMid) * rMid,
+            y: Math.sin(thetaMid) * rMid
+        };
+    }
+
+    private clearRings() {
+        this.rings.forEach(ring => ring.group.remove());
+        this.rings.clear();
+    }
+
+    private renderDebugInfo(state: MenuState) {
+        this.debugLayer.replaceChildren();
+        if (!this.debug || !this.lastCursor) return;
+
+        const { x, y } = this.lastCursor;
+        const { r, theta } = cartesianToPolar(x, y);
+
+        // Cursor line always in debug
+        if (state.status !== MenuStatus.GLIDING) {
+            this.debugLayer.appendChild(createSvgElement('line', {
+                x1: 0, y1: 0, x2: x, y2: y,
+                stroke: 'rgba(255, 255, 0, 0.3)',
+                'stroke-dasharray': '2 2'
+            }));
+        }
+
+        [`r: ${r.toFixed(1)}`, `θ: ${theta.toFixed(2)}`, `x,y: ${x.toFixed(0)},${y.toFixed(0)}`].forEach((line, i) => {
+            const text = createSvgElement('text', {
+                x: x + 10,
+                y: y + 10 + i * 12,
+                fill: '#ffff00',
+                'font-size': 10,
+                'font-family': 'monospace',
+                'dominant-baseline': 'hanging'
+            });
+            text.textContent = line;
+            this.debugLayer.appendChild(text);
+        });
+
+        // Pointer Dot
+        this.debugLayer.appendChild(createSvgElement('circle', { cx: x, cy: y, r: 3, fill: '#ff00ff' }));
+    }
+}
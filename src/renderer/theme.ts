@@ -0,0 +1,49 @@
+import { parseDuration } from './effects/animations';
+
+/**
+ * Theme values resolved from the --bagel-* CSS variables on the render surface
+ */
+export interface RenderTheme {
+    bgActive: string;
+    bgInactive: string;
+    text: string;
+    glow: string;
+    font: string;
+    cursor: string;
+    borderColor: string;
+    accentPrimary: string; // Checked marks
+    accentSecondary: string; // Loading spinner
+    shadowColor: string; // Text shadow of the highlighted label
+    bgActiveHover: string; // Outline of the highlighted slice under the pointer
+    bgInactiveHover: string; // Outline of any other slice under the pointer
+    transitionDuration: number; // ms, parsed from the CSS time value
+    easing: string; // CSS easing, parsed with parseEasing() where it is used
+}
+
+export function getThemeValue(style: CSSStyleDeclaration | null, variable: string, fallback: string): string {
+    return style?.getPropertyValue(variable).trim() || fallback;
+}
+
+/**
+ * Reads the theme once per frame (getComputedStyle is not free).
+ * Without an element every value is the default.
+ */
+export function readRenderTheme(element: Element | null): RenderTheme {
+    const style = element ? getComputedStyle(element) : null;
+    return {
+        bgActive: getThemeValue(style, '--bagel-bg-active', 'rgba(100, 149, 237, 0.8)'),
+        bgInactive: getThemeValue(style, '--bagel-bg-inactive', 'rgba(50, 50, 50, 0.6)'),
+        text: getThemeValue(style, '--bagel-text-color', '#ffffff'),
+        glow: getThemeValue(style, '--bagel-glow-color', 'rgba(100, 149, 237, 0.6)'),
+        font: getThemeValue(style, '--bagel-font-family', 'sans-serif'),
+        cursor: getThemeValue(style, '--bagel-cursor-color', 'rgba(255, 0, 0, 0.5)'),
+        borderColor: getThemeValue(style, '--bagel-border-color', 'rgba(255, 255, 255, 0.2)'),
+        accentPrimary: getThemeValue(style, '--bagel-accent-primary', 'rgba(100, 149, 237, 1)'),
+        accentSecondary: getThemeValue(style, '--bagel-accent-secondary', 'rgba(138, 43, 226, 1)'),
+        shadowColor: getThemeValue(style, '--bagel-shadow-color', 'rgba(0, 0, 0, 0.5)'),
+        bgActiveHover: getThemeValue(style, '--bagel-bg-active-hover', 'rgba(100, 149, 237, 0.9)'),
+        bgInactiveHover: getThemeValue(style, '--bagel-bg-inactive-hover', 'rgba(60, 60, 60, 0.7)'),
+        transitionDuration: parseDuration(getThemeValue(style, '--bagel-transition-duration', ''), 200),
+        easing: getThemeValue(style, '--bagel-easing-function', 'ease-in-out'),
+    };
+}
@@ -0,0 +1,55 @@
+import { BagelConfig, Point, RadialItem, RadialItemBadge } from '../types';
+import { MenuState, StateListener } from '../core/state';
+import { ChildrenStatus } from '../core/children';
+import { RecentItem } from '../core/history';
+
+// 'worker' draws the canvas in a Web Worker and falls back to 'canvas' where OffscreenCanvas is missing
+export type RendererType = 'canvas' | 'svg' | 'worker';
+
+/**
+ * What InputController and the wrappers need from a rendering backend.
+ * State changes are picked up through the BagelStateManager passed to the constructor.
+ */
+export interface BagelRenderer {
+    // Whether the recents ring (history.recents) is drawn; input only hit-tests it when it is
+    readonly drawsRecents: boolean;
+    updateCursor(point: Point | null): void;
+    updateItems(items: RadialItem[]): void;
+    updateConfig(config: BagelConfig): void;
+    setDebug(enabled: boolean): void;
+    start(): void;
+    stop(): void;
+    resize(): void;
+}
+
+// Element a renderer draws into; it also receives the pointer events
+export type RenderSurface = HTMLCanvasElement | SVGSVGElement;
+
+/**
+ * The parts of BagelStateManager a renderer reads. The worker renderer implements it from posted snapshots.
+ */
+export interface RenderStateSource {
+    getState(): Readonly<MenuState>;
+    subscribe(listener: StateListener): () => void;
+    isChecked(item: RadialItem): boolean;
+    readonly children: {
+        getChildren(item: RadialItem): RadialItem[];
+        getStatus(item: RadialItem): ChildrenStatus;
+        isLoading(): boolean;
+    };
+    readonly badges: {
+        get(item: RadialItem): RadialItemBadge | null;
+    };
+    // Recents ring (config.history.recents); posted snapshots have none, so the worker does not draw it
+    getRecents?(count: number): RecentItem[];
+    readonly history?: {
+        getHighlighted(): number;
+    };
+}
+
+// Size of a surface that cannot be measured (OffscreenCanvas), in CSS pixels
+export interface SurfaceSize {
+    width: number;
+    height: number;
+    dpr: number;
+}
@@ -0,0 +1,125 @@
+import { RadialItem } from '../../types';
+import { MenuState, StateListener } from '../../core/state';
+import { CanvasRenderer } from '../canvas';
+import { RenderStateSource } from '../types';
+import { BadgeSnapshot, SnapshotItem, WorkerMessage } from './protocol';
+
+// Workers without requestAnimationFrame fall back to a 60fps timer
+if (typeof requestAnimationFrame === 'undefined') {
+    Object.assign(self, {
+        requestAnimationFrame: (callback: FrameRequestCallback) => setTimeout(() => callback(performance.now()), 16),
+        cancelAnimationFrame: (handle: number) => clearTimeout(handle),
+    });
+}
+
+/**
+ * Menu state as last posted by the main thread
+ */
+class SnapshotState implements RenderStateSource {
+    private state: MenuState;
+    private loading: boolean;
+    private badgeSnapshot: BadgeSnapshot;
+    private listeners: Set<StateListener> = new Set();
+
+    public readonly children = {
+        getChildren: (item: RadialItem) => (item as SnapshotItem).children ?? [],
+        getStatus: (item: RadialItem) => (item as SnapshotItem).childrenStatus ?? 'loaded',
+        isLoading: () => this.loading,
+    };
+
+    public readonly badges = {
+        get: (item: RadialItem) => this.badgeSnapshot[item.id] ?? null,
+    };
+
+    constructor(state: MenuState, loading: boolean, badges: BadgeSnapshot) {
+        this.state = state;
+        this.loading = loading;
+        this.badgeSnapshot = badges;
+    }
+
+    public getState(): Readonly<MenuState> {
+        return this.state;
+    }
+
+    public subscribe(listener: StateListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    public isChecked(item: RadialItem): boolean {
+        return (item as SnapshotItem).checked === true;
+    }
+
+    public update(state: MenuState, loading: boolean) {
+        this.state = state;
+        this.loading = loading;
+        this.listeners.forEach(listener => listener(this.state));
+    }
+
+    public updateBadges(badges: BadgeSnapshot) {
+        this.badgeSnapshot = badges;
+        this.listeners.forEach(listener => listener(this.state));
+    }
+}
+
+let canvas: OffscreenCanvas | null = null;
+let current: { id: number; renderer: CanvasRenderer; state: SnapshotState } | null = null;
+
+self.onmessage = (event: MessageEvent<WorkerMessage>) => {
+    const message = event.data;
+
+    if (message.type === 'attach') {
+        canvas = message.canvas;
+        return;
+    }
+
+    if (message.type === 'init') {
+        if (!canvas) return;
+        current?.renderer.stop();
+
+        const state = new SnapshotState(message.state, message.loading, message.badges);
+        const renderer = new CanvasRenderer(canvas, state, message.items, message.config);
+        renderer.setTheme(message.theme);
+        renderer.resize(message.size);
+        renderer.setDebug(message.debug);
+        current = { id: message.id, renderer, state };
+        return;
+    }
+
+    // Sent by a renderer that has since been replaced
+    if (!current || message.id !== current.id) return;
+    const { renderer, state } = current;
+
+    switch (message.type) {
+        case 'items':
+            renderer.updateItems(message.items);
+            break;
+        case 'badges':
+            state.updateBadges(message.badges);
+            break;
+        case 'state':
+            state.update(message.state, message.loading);
+            break;
+        case 'theme':
+            renderer.setTheme(message.theme);
+            break;
+        case 'config':
+            renderer.updateConfig(message.config);
+            break;
+        case 'cursor':
+            renderer.updateCursor(message.point);
+            break;
+        case 'resize':
+            renderer.resize(message.size);
+            break;
+        case 'debug':
+            renderer.setDebug(message.enabled);
+            break;
+        case 'start':
+            renderer.start();
+            break;
+        case 'stop':
+            renderer.stop();
+            break;
+    }
+};
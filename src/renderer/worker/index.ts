@@ -0,0 +1,251 @@
+import { BagelConfig, Point, RadialItem } from '../../types';
+import { BagelStateManager, MenuStatus } from '../../core/state';
+import { getVisibleItems, isItemDisabled } from '../../core/items';
+import { BagelRenderer, SurfaceSize } from '../types';
+import { readRenderTheme } from '../theme';
+import { BadgeSnapshot, SnapshotItem, WorkerMessage } from './protocol';
+
+// Control of a canvas can only be transferred once, so renderers re-created for the same
+// canvas (e.g. after a prop change) share its worker
+const workers: WeakMap<HTMLCanvasElement, Worker> = new WeakMap();
+let nextRendererId = 1;
+let isSupported: boolean | null = null;
+
+/**
+ * Whether canvases can be drawn from a worker (OffscreenCanvas with a 2D context)
+ */
+export function supportsWorkerRendering(): boolean {
+    if (isSupported === null) {
+        try {
+            isSupported = typeof Worker !== 'undefined' &&
+                typeof OffscreenCanvas !== 'undefined' &&
+                'transferControlToOffscreen' in HTMLCanvasElement.prototype &&
+                !!new OffscreenCanvas(1, 1).getContext('2d');
+        } catch {
+            isSupported = false;
+        }
+    }
+    return isSupported;
+}
+
+/**
+ * Config without callbacks, which cannot be posted (a custom center render runs on the main thread only,
+ * history storage is the state manager's)
+ */
+function toWorkerConfig(config: BagelConfig): BagelConfig {
+    let workerConfig = config;
+    if (config.center?.render) {
+        const { render, ...center } = config.center;
+        workerConfig = { ...workerConfig, center };
+    }
+    if (config.history?.storage) {
+        const { storage, ...history } = config.history;
+        workerConfig = { ...workerConfig, history };
+    }
+    return workerConfig;
+}
+
+/**
+ * Runs a CanvasRenderer in a Web Worker so drawing, animations and particles do not compete
+ * with app work on the main thread. State, cursor, theme and size are posted to it.
+ */
+export class WorkerCanvasRenderer implements BagelRenderer {
+    public readonly drawsRecents = false; // Snapshots carry no history
+    private canvas: HTMLCanvasElement;
+    private stateManager: BagelStateManager;
+    private rootItems: RadialItem[];
+    private worker: Worker;
+    private readonly id = nextRendererId++;
+    private unsubscribers: (() => void)[] = [];
+
+    // Last posted values, items, badges and theme are only re-sent when they change
+    private lastItems: string = '';
+    private lastBadges: string = '';
+    private lastTheme: string = '';
+    private lastStatus: MenuStatus | null = null;
+    private lastSelection: number[] | null = null;
+
+    constructor(
+        canvas: HTMLCanvasElement,
+        stateManager: BagelStateManager,
+        items: RadialItem[],
+        config: BagelConfig
+    ) {
+        this.canvas = canvas;
+        this.stateManager = stateManager;
+        this.rootItems = items;
+
+        let worker = workers.get(canvas);
+        if (!worker) {
+            worker = new Worker(new URL('./canvas.worker.ts', import.meta.url), { type: 'module' });
+            worker.addEventListener('error', (event) => {
+                console.error('[WorkerRenderer] Worker error:', event.message);
+            });
+            const offscreen = canvas.transferControlToOffscreen();
+            this.post({ type: 'attach', canvas: offscreen }, worker, [offscreen]);
+            workers.set(canvas, worker);
+        }
+        this.worker = worker;
+
+        const snapshot = this.snapshotItems(items);
+        const badges = this.snapshotBadges(items);
+        const theme = readRenderTheme(canvas);
+        this.lastItems = JSON.stringify(snapshot);
+        this.lastBadges = JSON.stringify(badges);
+        this.lastTheme = JSON.stringify(theme);
+        this.post({
+            type: 'init',
+            id: this.id,
+            items: snapshot,
+            badges,
+            config: toWorkerConfig(config),
+            size: this.measure(),
+            theme,
+            state: this.stateManager.getState(),
+            loading: this.stateManager.children.isLoading(),
+            debug: false
+        });
+    }
+
+    public setDebug(enabled: boolean) {
+        this.post({ type: 'debug', id: this.id, enabled });
+    }
+
+    public updateConfig(newConfig: BagelConfig) {
+        this.post({ type: 'config', id: this.id, config: toWorkerConfig(newConfig) });
+    }
+
+    public updateItems(newItems: RadialItem[]) {
+        this.rootItems = newItems;
+        this.syncItems();
+        this.syncBadges();
+    }
+
+    public updateCursor(point: Point | null) {
+        this.post({ type: 'cursor', id: this.id, point });
+    }
+
+    public start() {
+        if (this.unsubscribers.length === 0) {
+            this.unsubscribers = [
+                this.stateManager.subscribe(this.onStateChange),
+                this.stateManager.badges.subscribe(() => this.syncBadges()),
+                // Loaded children extend the item snapshot, and may bring badges
+                this.stateManager.children.subscribe(() => {
+                    this.syncItems();
+                    this.syncBadges();
+                })
+            ];
+        }
+        this.onStateChange();
+        this.syncItems();
+        this.syncBadges();
+        this.syncTheme();
+        this.post({ type: 'start', id: this.id });
+    }
+
+    public stop() {
+        this.unsubscribers.forEach(off => off());
+        this.unsubscribers = [];
+        this.post({ type: 'stop', id: this.id });
+
+        // The canvas was unmounted (not just re-rendered): its worker has nothing left to draw
+        setTimeout(() => {
+            if (!this.canvas.isConnected && workers.get(this.canvas) === this.worker) {
+                this.worker.terminate();
+                workers.delete(this.canvas);
+            }
+        }, 0);
+    }
+
+    public resize() {
+        this.post({ type: 'resize', id: this.id, size: this.measure() });
+        this.syncTheme();
+    }
+
+    /**
+     * Runs on every highlight change of a glide, so it only posts the state. The snapshot (checked
+     * state, disabled predicates) and the theme are re-read when the menu opens, closes or selects.
+     */
+    private onStateChange = () => {
+        const state = this.stateManager.getState();
+        this.post({
+            type: 'state',
+            id: this.id,
+            state,
+            loading: this.stateManager.children.isLoading()
+        });
+
+        if (state.status === this.lastStatus && state.selection === this.lastSelection) return;
+        const statusChanged = state.status !== this.lastStatus;
+        this.lastStatus = state.status;
+        this.lastSelection = state.selection;
+        this.syncItems();
+        if (statusChanged) this.syncTheme();
+    };
+
+    private syncItems() {
+        const snapshot = this.snapshotItems(this.rootItems);
+        const serialized = JSON.stringify(snapshot);
+        if (serialized === this.lastItems) return;
+        this.lastItems = serialized;
+        this.post({ type: 'items', id: this.id, items: snapshot });
+    }
+
+    private syncBadges() {
+        const badges = this.snapshotBadges(this.rootItems);
+        const serialized = JSON.stringify(badges);
+        if (serialized === this.lastBadges) return;
+        this.lastBadges = serialized;
+        this.post({ type: 'badges', id: this.id, badges });
+    }
+
+    private syncTheme() {
+        const theme = readRenderTheme(this.canvas);
+        const serialized = JSON.stringify(theme);
+        if (serialized === this.lastTheme) return;
+        this.lastTheme = serialized;
+        this.post({ type: 'theme', id: this.id, theme });
+    }
+
+    /**
+     * Plain copy of the visible tree with everything the canvas renderer reads
+     */
+    private snapshotItems(items: RadialItem[]): SnapshotItem[] {
+        const { children } = this.stateManager;
+        return getVisibleItems(items).map(item => ({
+            id: item.id,
+            label: item.label,
+            icon: item.icon,
+            iconTint: item.iconTint,
+            shortcut: item.shortcut,
+            color: item.color,
+            type: item.type,
+            group: item.group,
+            weight: item.weight,
+            disabled: isItemDisabled(item),
+            checked: this.stateManager.isChecked(item),
+            children: this.snapshotItems(children.getChildren(item)),
+            childrenStatus: children.getStatus(item),
+        }));
+    }
+
+    private snapshotBadges(items: RadialItem[], badges: BadgeSnapshot = {}): BadgeSnapshot {
+        const { children } = this.stateManager;
+        getVisibleItems(items).forEach(item => {
+            const badge = this.stateManager.badges.get(item);
+            if (badge) badges[item.id] = badge;
+            this.snapshotBadges(children.getChildren(item), badges);
+        });
+        return badges;
+    }
+
+    private measure(): SurfaceSize {
+        const rect = this.canvas.getBoundingClientRect();
+        return { width: rect.width, height: rect.height, dpr: window.devicePixelRatio || 1 };
+    }
+
+    private post(message: WorkerMessage, worker: Worker = this.worker, transfer: Transferable[] = []) {
+        worker.postMessage(message, transfer);
+    }
+}
@@ -0,0 +1,46 @@
+import { BagelConfig, Point, RadialItem, RadialItemBadge } from '../../types';
+import { MenuState } from '../../core/state';
+import { ChildrenStatus } from '../../core/children';
+import { RenderTheme } from '../theme';
+import { SurfaceSize } from '../types';
+
+/**
+ * Structured-cloneable item for the worker: predicates are evaluated, hidden items dropped
+ * and children (static or already loaded) resolved on the main thread.
+ */
+export interface SnapshotItem extends RadialItem {
+    disabled: boolean;
+    checked: boolean;
+    children: SnapshotItem[];
+    childrenStatus: ChildrenStatus;
+}
+
+// Resolved badges of the visible tree by item id, sent apart from the items so a ticking counter
+// does not reset the worker's paths and animations
+export type BadgeSnapshot = Record<string, RadialItemBadge>;
+
+// Main thread -> worker. `id` identifies the renderer instance, so messages from one that was replaced are dropped
+export type WorkerMessage =
+    | { type: 'attach'; canvas: OffscreenCanvas }
+    | {
+        type: 'init';
+        id: number;
+        items: SnapshotItem[];
+        badges: BadgeSnapshot;
+        config: BagelConfig;
+        size: SurfaceSize;
+        theme: RenderTheme;
+        state: MenuState;
+        loading: boolean;
+        debug: boolean;
+    }
+    | { type: 'items'; id: number; items: SnapshotItem[] }
+    | { type: 'badges'; id: number; badges: BadgeSnapshot }
+    | { type: 'state'; id: number; state: MenuState; loading: boolean }
+    | { type: 'theme'; id: number; theme: RenderTheme }
+    | { type: 'config'; id: number; config: BagelConfig }
+    | { type: 'cursor'; id: number; point: Point | null }
+    | { type: 'resize'; id: number; size: SurfaceSize }
+    | { type: 'debug'; id: number; enabled: boolean }
+    | { type: 'start'; id: number }
+    | { type: 'stop'; id: number };
@@ -1,16 +1,195 @@
+// Stateful kinds show a checkmark / selected dot and flip their checked state when selected
+export type RadialItemType = 'action' | 'toggle' | 'checkbox' | 'radio';
+
+export type BadgeSeverity = 'info' | 'success' | 'warning' | 'error';
+
+// Marker at the slice's outer edge: a count pill, a plain dot, or a "!" when only a severity is given
+export interface RadialItemBadge {
+    count?: number; // Zero hides the badge unless `dot` is set
+    max?: number; // Larger counts show as "99+". Default 99
+    dot?: boolean;
+    severity?: BadgeSeverity; // Picks the color. Default 'error'
+    color?: string; // Overrides the severity color
+}
+
 export interface RadialItem {
     id: string;
     label: string;
-    icon?: string; // or ReactNode if specific to React, but keeping it generic for now
+    // Emoji / text glyph, image URL (or data URI), or SVG path data in a 24x24 view box
+    icon?: string;
+    // Icons take the label color by default; false keeps an image's own colors
+    iconTint?: boolean;
     children?: RadialItem[];
+    // Lazy branch: called the first time the item is highlighted, results are cached by id
+    loadChildren?: () => Promise<RadialItem[]>;
     action?: () => void;
     // Pass the full path so the app knows the context of the selection
     onSelect?: (path: RadialItem[]) => void;
+    // Longer explanation shown in a tooltip next to the highlighted slice
+    description?: string;
+    // Keyboard accelerator while the menu is open ("b", "Shift+E"), also shown with the description
+    shortcut?: string;
     // Optional custom data
     data?: any;
-    // Optional color override (RGBA or hex format)
+    // Optional color override (any CSS color: hex, rgb(), hsl(), oklch(), named, color-mix()...)
     // If provided, this color will be used instead of auto-assigned palette colors
     color?: string;
+    // Unavailable items are drawn greyed out and never confirm (predicates are re-evaluated live)
+    disabled?: boolean | (() => boolean);
+    // Hidden items take no slice at all
+    hidden?: boolean | (() => boolean);
+    // Item kind (default 'action')
+    type?: RadialItemType;
+    // toggle/checkbox/radio: a boolean is the initial state (then tracked by the menu),
+    // a predicate means the app owns the state
+    checked?: boolean | (() => boolean);
+    // radio: items in the same ring and group are mutually exclusive (default: the whole ring)
+    group?: string;
+    // Called when selecting the item changes its checked state
+    onCheckedChange?: (checked: boolean, item: RadialItem) => void;
+    // Keep the menu open after selecting this item instead of closing (e.g. flipping several toggles)
+    keepOpen?: boolean;
+    // Initial badge (a number is a count); live updates go through stateManager.badges
+    badge?: RadialItemBadge | number;
+    // Optional relative size of the slice (default 1)
+    // A weight of 2 gets twice the angle of its default-sized siblings
+    weight?: number;
+}
+
+// 'start': arc begins at startAngle and runs clockwise
+// 'center': arc is centered on startAngle
+// 'end': arc ends at startAngle
+export type ArcAlign = 'start' | 'center' | 'end';
+
+// 'stacked': icon above the label
+// 'icon': icon alone (the label stays the accessible name)
+export type IconDisplay = 'stacked' | 'icon';
+
+// 'horizontal': straight lines centered on the slice
+// 'curved': along the arc
+// 'radial': rotated along the radius, for narrow slices
+export type LabelOrientation = 'horizontal' | 'curved' | 'radial';
+
+export interface LabelConfig {
+    orientation?: LabelOrientation | 'auto'; // Default 'auto': radial for narrow slices, curved on outer rings
+    fontSize?: number; // Largest size in px. Default 12
+    minFontSize?: number; // Labels shrink down to this size before they are truncated. Default 9
+    maxLines?: number; // Default 2
+    shortcutHints?: boolean; // Draw each item's shortcut (and 1-9 in the focused ring) in its inner corner. Default false
+}
+
+// 'label': icon and label of the highlighted item
+// 'breadcrumb': labels of the whole active path
+// 'none': the plain disc
+export type CenterContent = 'label' | 'breadcrumb' | 'none';
+
+export interface CenterRenderInfo {
+    radius: number;
+    path: RadialItem[]; // Active path, root ring first
+    highlighted: RadialItem | null;
+}
+
+// Custom hub content over the disc. The canvas renderer calls it every frame with the context translated
+// to the center; the SVG renderer calls it with an emptied <g> (centered) whenever the path changes.
+export type CenterRenderer = (target: CanvasRenderingContext2D | SVGGElement, info: CenterRenderInfo) => void;
+
+export interface CenterConfig {
+    content?: CenterContent; // Default 'label'
+    backOnTap?: boolean; // Releasing on the hub closes the outermost open ring instead of the menu. Default false
+    render?: CenterRenderer; // Replaces the built-in content. Not called by the worker renderer
+}
+
+// 'callout': next to the highlighted slice, pointing away from the center
+// 'caption': a fixed area below the menu
+// 'none': no tooltip (descriptions stay in the accessible tree)
+export type TooltipPlacement = 'callout' | 'caption' | 'none';
+
+export interface TooltipConfig {
+    placement?: TooltipPlacement; // Default 'callout'
+    offset?: number; // Distance from the slice (or the menu) in px. Default 8
+}
+
+// How far (px) the pointer has to move past the highlighted slice's edge before the highlight follows
+export interface HysteresisConfig {
+    angular?: number; // Along the arc, into a neighbouring slice. Default 6
+    radial?: number; // Across a ring edge, into a parent or child ring. Default 6
+}
+
+export interface GestureConfig {
+    holdThreshold?: number; // ms a press rests before it glides. Default 200
+    movementBuffer?: number; // px a press may move and still count as resting (also cancels an attach long-press). Default 10
+    longPressDelay?: number; // ms to hold on the attach target before the menu opens. Default 400
+    flickToSelect?: boolean; // A fast outward flick past the outermost ring confirms the leaf in its direction. Default false
+    flickVelocity?: number; // Outward speed in px/ms that counts as a flick. Default 1.5
+    confirmBeyondRing?: boolean; // Past the outermost ring the highlight holds and releasing confirms it. Default false
+    hysteresis?: HysteresisConfig; // Keeps the highlight from flickering along slice and ring edges
+}
+
+// Commands bound to gamepad buttons
+export type GamepadAction = 'confirm' | 'cancel' | 'in' | 'out' | 'toggle';
+
+export interface GamepadConfig {
+    enabled?: boolean;
+    stick?: 'left' | 'right'; // Stick that aims. Default 'left'
+    deadZone?: number; // Stick magnitude (0-1) that is ignored, the stick's deadZoneRadius. Default 0.25
+    index?: number; // Gamepad to read. Default: the first connected one
+    // Button indices in the standard mapping. Default confirm A (0), cancel B (1), out LB (4), in RB (5), toggle Start (9)
+    buttons?: Partial<Record<GamepadAction, number>>;
+}
+
+// Moments that can play feedback
+export type FeedbackEvent = 'glide' | 'highlight' | 'drill-in' | 'back' | 'select' | 'cancel' | 'disabled-hit';
+
+// A short synthesized tone (Web Audio oscillator), no audio assets involved
+export interface FeedbackTone {
+    frequency: number; // Hz at the start
+    endFrequency?: number; // Hz at the end, glides from frequency. Default: no glide
+    duration?: number; // ms. Default 40
+    type?: OscillatorType; // Default 'sine'
+    volume?: number; // 0-1, before the global volume. Default 1
+}
+
+export interface FeedbackProfile {
+    vibrate?: number | number[]; // Vibration pattern in ms (navigator.vibrate, or rumble on a gamepad)
+    tone?: FeedbackTone;
+}
+
+export interface FeedbackConfig {
+    muted?: boolean; // Silences all feedback. Default false
+    haptics?: boolean; // Default true
+    sound?: boolean; // Default false
+    volume?: number; // 0-1 for all tones. Default 0.2
+    // Only confirming pulses (select, cancel, disabled-hit) vibrate. Default: follows prefers-reduced-motion
+    reduceHaptics?: boolean;
+    // Per-event overrides merged over the defaults, false turns an event off
+    profiles?: Partial<Record<FeedbackEvent, FeedbackProfile | false>>;
+}
+
+// A confirmed selection, by the ids of the items from the root ring outwards
+export interface HistoryEntry {
+    ids: string[];
+    time: number; // ms since the epoch
+}
+
+// Where the selection history is kept between sessions; load may be async
+export interface HistoryStorage {
+    load(): HistoryEntry[] | null | Promise<HistoryEntry[] | null>;
+    save(entries: HistoryEntry[]): void;
+}
+
+export interface HistoryConfig {
+    limit?: number; // Selections kept, most recent first. Default 20
+    repeatOnTap?: boolean; // A tap on the hub while nothing is highlighted repeats the last selection. Default false
+    repeatKey?: string; // Shortcut that repeats the last selection, also while the menu is closed, e.g. "r"
+    recents?: number; // Recent leaves shown in a ring between the hub and the root ring (canvas renderer only). Default 0
+    storage?: HistoryStorage; // Persists the history, e.g. createLocalStorageHistory(). Create it once
+}
+
+export interface MarkingMenuConfig {
+    enabled?: boolean;
+    delay?: number; // ms the pointer may rest before the rings fade in. Default 300
+    cornerAngle?: number; // Minimum turn (radians) that splits the stroke into segments. Default PI/3
+    minSegmentLength?: number; // Segments shorter than this (px) are ignored as jitter. Default 20
 }
 
 export interface BagelConfig {
@@ -18,7 +197,18 @@ export interface BagelConfig {
     ringWidth: number;
     gap?: number; // Gap in pixels, applied uniformly to both ring gaps and slice gaps
     startAngle?: number; // Default to -PI/2 (12 o'clock)
+    arcSpan?: number; // Angle covered by the rings in radians. Default 2PI (full donut), e.g. PI for an edge fan, PI/2 for a corner
+    arcAlign?: ArcAlign; // How the arc sits relative to startAngle. Default 'start'
     deadZoneRadius?: number; // Center area that ignores input
+    markingMenu?: MarkingMenuConfig; // Expert mode: recognize strokes without drawing the rings
+    gesture?: GestureConfig; // Press timing, flicks, edge hysteresis and overshoot tolerance
+    gamepad?: GamepadConfig; // Controller input through GamepadInputController
+    iconDisplay?: IconDisplay; // How slices with an icon show it. Default 'stacked'
+    labels?: LabelConfig; // Label layout: orientation, wrapping and font-size fitting
+    center?: CenterConfig; // What the hub shows and what tapping it does
+    tooltip?: TooltipConfig; // Where item descriptions are shown
+    feedback?: FeedbackConfig; // Haptic and audio feedback through FeedbackController
+    history?: HistoryConfig; // Selection history: repeat-last, recents ring and persistence
 }
 
 export interface Point {
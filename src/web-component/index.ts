@@ -1,18 +1,30 @@
 // Optional Web Component Wrapper
 import { BagelConfig, RadialItem } from '../types';
-import { BagelStateManager } from '../core/state';
-import { CanvasRenderer } from '../renderer/canvas';
+import { BagelStateManager, BagelEventType } from '../core/state';
+import { BadgeValue } from '../core/badges';
+import { BagelRenderer, createRenderer, RendererType, RenderSurface } from '../renderer';
 import { InputController } from '../core/input';
+import { TooltipController } from '../core/tooltip';
+import { GamepadInputController } from '../core/gamepad';
+import { FeedbackController } from '../core/feedback';
 import { DEFAULT_THEME } from '../types/theme';
 
 export class BagelMenuElement extends HTMLElement {
+  static observedAttributes = ['renderer'];
+
   private shadow: ShadowRoot;
-  private canvas: HTMLCanvasElement;
+  private surface!: RenderSurface;
   private container: HTMLDivElement;
 
   private stateManager: BagelStateManager;
-  private renderer: CanvasRenderer;
-  private inputController: InputController;
+  private menuRenderer!: BagelRenderer;
+  private inputController!: InputController;
+  private tooltipController!: TooltipController;
+  // Not tied to the surface, they survive renderer swaps and live while the element is connected
+  private gamepadController: GamepadInputController | null = null;
+  private feedbackController: FeedbackController | null = null;
+  private rendererType: RendererType = 'canvas';
+  private unsubscribers: Array<() => void> = [];
 
   private _items: RadialItem[] = [];
   private _config: BagelConfig = { innerRadius: 50, ringWidth: 60 }; // Default
@@ -28,13 +40,6 @@ export class BagelMenuElement extends HTMLElement {
     this.container.style.position = 'relative';
     this.container.style.touchAction = 'none';
 
-    // Create Canvas
-    this.canvas = document.createElement('canvas');
-    this.canvas.style.display = 'block';
-    this.canvas.style.width = '100%';
-    this.canvas.style.height = '100%';
-
-    this.container.appendChild(this.canvas);
     this.shadow.appendChild(this.container);
 
     // Apply Default Theme Variables to Host
@@ -44,44 +49,125 @@ export class BagelMenuElement extends HTMLElement {
 
     // Initialize Engine
     this.stateManager = new BagelStateManager();
-    this.renderer = new CanvasRenderer(this.canvas, this.stateManager, this._items, this._config);
-    this.inputController = new InputController(this.canvas, this.stateManager, this.renderer, this._config, this._items);
+    this.mountRenderer();
+  }
+
+  /**
+   * Creates the surface for the current renderer type, with its renderer and input controller.
+   */
+  private mountRenderer() {
+    this.surface = this.rendererType === 'svg'
+      ? document.createElementNS('http://www.w3.org/2000/svg', 'svg')
+      : document.createElement('canvas');
+    this.surface.style.display = 'block';
+    this.surface.style.width = '100%';
+    this.surface.style.height = '100%';
+    this.container.replaceChildren(this.surface);
+
+    this.menuRenderer = createRenderer(this.surface, this.stateManager, this._items, this._config, this.rendererType === 'worker');
+    this.inputController = new InputController(this.surface, this.stateManager, this.menuRenderer, this._config, this._items);
+    this.tooltipController = new TooltipController(this.container, this.surface, this.stateManager, this._config, this._items);
+  }
+
+  /**
+   * Rendering backend ('canvas', 'svg' or 'worker'), also settable as the `renderer` attribute.
+   */
+  set renderer(value: RendererType) {
+    if (value === this.rendererType) return;
+    this.rendererType = value;
+
+    // Swap the surface, keeping the state manager (and with it the open path and checked state)
+    this.menuRenderer.stop();
+    this.inputController.destroy();
+    this.tooltipController.destroy();
+    this.mountRenderer();
+    if (this.isConnected) this.menuRenderer.start();
+  }
+
+  get renderer(): RendererType {
+    return this.rendererType;
+  }
+
+  attributeChangedCallback(name: string, _oldValue: string | null, newValue: string | null) {
+    if (name === 'renderer') {
+      this.renderer = newValue === 'svg' || newValue === 'worker' ? newValue : 'canvas';
+    }
   }
 
   connectedCallback() {
-    this.renderer.start();
+    this.menuRenderer.start();
+    this.gamepadController = new GamepadInputController(this.stateManager, this._config, this._items);
+    this.feedbackController = new FeedbackController(this.stateManager, this._config);
+
     // Resize Observer
     const resizeObserver = new ResizeObserver(() => {
-      this.renderer.resize();
+      this.menuRenderer.resize();
+      this.tooltipController.update();
     });
     resizeObserver.observe(this.container);
 
-    // Listen for select
-    this.stateManager.subscribe((state) => {
-      if (state.selection) {
-        // Dispatch Custom Event
-        this.dispatchEvent(new CustomEvent('bagel-select', {
-          detail: { selection: state.selection } // Indices
+    this.unsubscribers.push(() => resizeObserver.disconnect());
+
+    // Forward lifecycle events as `bagel-<type>` Custom Events
+    const eventTypes: BagelEventType[] = ['open', 'close', 'highlight', 'select', 'cancel', 'back', 'reject'];
+    eventTypes.forEach((type) => {
+      this.unsubscribers.push(this.stateManager.on(type, (event) => {
+        this.dispatchEvent(new CustomEvent(`bagel-${type}`, {
+          // `selection` kept for listeners written against the index-only payload
+          detail: type === 'select' ? { ...event, selection: event.indices } : event
         }));
-      }
+      }));
     });
   }
 
   disconnectedCallback() {
-    this.renderer.stop();
+    this.unsubscribers.forEach(off => off());
+    this.unsubscribers = [];
+    this.menuRenderer.stop();
     this.inputController.destroy();
+    this.tooltipController.destroy();
+    this.gamepadController?.destroy();
+    this.gamepadController = null;
+    this.feedbackController?.destroy();
+    this.feedbackController = null;
   }
 
   set items(value: RadialItem[]) {
     this._items = value;
-    this.renderer.updateItems(value);
+    this.menuRenderer.updateItems(value);
     this.inputController.updateItems(value);
+    this.tooltipController.updateItems(value);
+    this.gamepadController?.updateItems(value);
+  }
+
+  /**
+   * Drops cached lazy children so they load again on the next highlight.
+   */
+  invalidateChildren(id?: string) {
+    this.stateManager.children.invalidate(id);
+  }
+
+  /**
+   * Selects a history entry again (0 is the last selection); false when there is none.
+   */
+  repeat(index = 0): boolean {
+    return this.inputController.repeat(index);
+  }
+
+  /**
+   * Live badge of an item (null hides it), redrawn without resetting the items.
+   */
+  setBadge(id: string, badge: BadgeValue) {
+    this.stateManager.badges.set(id, badge);
   }
 
   set config(value: BagelConfig) {
     this._config = value;
-    this.renderer.updateConfig(value);
+    this.menuRenderer.updateConfig(value);
     this.inputController.updateConfig(value);
+    this.tooltipController.updateConfig(value);
+    this.gamepadController?.updateConfig(value);
+    this.feedbackController?.updateConfig(value);
   }
 }
 